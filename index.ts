@@ -3,9 +3,12 @@ import { Filters } from "./structures/Filters";
 import { Node } from "./structures/Node";
 import { Aqua } from "./structures/Aqua";
 import { Player } from "./structures/Player";
+import { JsonFilePlayerStore, MemoryPlayerStore } from "./structures/PlayerStore";
 import { Plugin } from "./structures/Plugins";
 import { Queue } from "./structures/Queue";
-import { Rest } from "./structures/Rest";
+import { MemoryResolveStore } from "./structures/ResolveCache";
+import { Rest, RestError } from "./structures/Rest";
 import { Track } from "./structures/Track";
+import { TrackCodec } from "./structures/TrackCodec";
 
-export { Connection, Filters, Node, Aqua, Player, Plugin, Queue, Rest, Track };
+export { Connection, Filters, Node, Aqua, Player, JsonFilePlayerStore, MemoryPlayerStore, Plugin, Queue, MemoryResolveStore, Rest, RestError, Track, TrackCodec };
@@ -1,10 +1,41 @@
 import { EventEmitter } from "events";
-import { Node } from "./Node";
-import { Player } from "./Player";
+import { Node, NodeConfig, ReconnectPolicy } from "./Node";
+import { Player, AutoplayResolver, InactivityReason, InactivityTimeouts, PlayerLifecycleState, PlayerUpdatePacket, EventPayload, TrackEndReason } from "./Player";
 import { Track } from "./Track";
+import { RestError, LoadResult } from "./Rest";
+import { MemoryResolveStore, ResolveCacheOptions, ResolveCacheStore, CacheableLoadType } from "./ResolveCache";
+import { PlayerSnapshot, PlayerStore } from "./PlayerStore";
+import {
+    ChapterStartedPayload,
+    ChaptersLoadedPayload,
+    LyricsFoundPayload,
+    LyricsLinePayload,
+    LyricsNotFoundPayload,
+    SegmentSkippedPayload,
+    SegmentsLoadedPayload
+} from "./PluginEvents";
 import { version as pkgVersion } from "../package.json";
 
 const URL_REGEX = /^https?:\/\//;
+// How long snapshot restore waits for the remaining nodes once one has resumed its session
+const SNAPSHOT_RESTORE_GRACE = 5000;
+
+type NodeSelectionStrategy = "penalties" | "leastPlayers" | "roundRobin" | "region";
+
+interface NodeSelectionContext {
+    region?: string;
+    source?: string;
+    aqua: Aqua;
+}
+
+type NodeSelector = (nodes: Node[], context: NodeSelectionContext) => Node | undefined;
+
+// A member's voice channel as the client's own cache sees it
+interface VoiceMemberState {
+    userId: string;
+    channelId: string | null;
+    bot?: boolean;
+}
 
 interface AquaOptions {
     shouldDeleteMessage?: boolean;
@@ -13,12 +44,79 @@ interface AquaOptions {
     plugins?: any[];
     send: (data: any) => void;
     autoResume?: boolean;
-    idleTimeout?: number;
+    resumeTimeout?: number;
+    reconnectTimeout?: number;
+    reconnectTries?: number;
+    reconnectPolicy?: Partial<ReconnectPolicy>;
+    heartbeatInterval?: number;
+    staleTimeout?: number;
+    requestTimeout?: number;
+    requestRetries?: number;
+    maxConcurrentRequests?: number;
+    nodeSelection?: NodeSelectionStrategy | NodeSelector;
+    resolveCache?: ResolveCacheOptions | boolean;
+    autoplayResolver?: AutoplayResolver;
+    fadeIn?: number;
+    fadeOut?: number;
+    historySize?: number;
+    playerStore?: PlayerStore;
+    snapshotDelay?: number;
+    inactivityTimeouts?: InactivityTimeouts;
+    voiceStates?: (guildId: string) => Iterable<VoiceMemberState> | null | undefined;
+    trackRetries?: number;
+}
+
+interface AquaEvents {
+    debug: [source: string, message: string];
+    apiResponse: [endpoint: string, response: { status: number; headers: Record<string, any> }];
+    apiError: [endpoint: string, error: Error];
+    nodeCreate: [node: Node];
+    nodeConnect: [node: Node];
+    nodeDisconnect: [node: Node, event: { code: number; reason: string }];
+    nodeError: [node: Node, error: Error];
+    nodeReconnect: [node: Node];
+    nodeReconnecting: [node: Node, attempt: number, delay: number];
+    nodeResume: [node: Node, guildIds: string[]];
+    nodeDestroy: [node: Node];
+    nodeDrain: [node: Node];
+    nodeDrained: [node: Node];
+    playerCreate: [player: Player];
+    playerDestroy: [player: Player];
+    playerUpdate: [player: Player, packet: PlayerUpdatePacket];
+    playerMove: [player: Player, oldChannel: string | null, newChannel: string];
+    playerLeave: [player: Player, channel: string | null];
+    playerMigrate: [player: Player, from: Node, to: Node];
+    playerStateChange: [player: Player, oldState: PlayerLifecycleState, newState: PlayerLifecycleState];
+    playerRestore: [player: Player, snapshot: PlayerSnapshot];
+    playerInactive: [player: Player, reason: InactivityReason];
+    segmentsLoaded: [player: Player, track: Track | null, payload: SegmentsLoadedPayload];
+    segmentSkipped: [player: Player, track: Track | null, payload: SegmentSkippedPayload];
+    chaptersLoaded: [player: Player, track: Track | null, payload: ChaptersLoadedPayload];
+    chapterStarted: [player: Player, track: Track | null, payload: ChapterStartedPayload];
+    lyricsFound: [player: Player, track: Track | null, payload: LyricsFoundPayload];
+    lyricsNotFound: [player: Player, track: Track | null, payload: LyricsNotFoundPayload];
+    lyricsLine: [player: Player, track: Track | null, payload: LyricsLinePayload];
+    trackStart: [player: Player, track: Track];
+    trackEnd: [player: Player, track: Track | null, reason: TrackEndReason];
+    trackChange: [player: Player, track: Track];
+    trackRepeat: [player: Player, track: Track];
+    trackError: [player: Player, track: Track, payload: EventPayload];
+    trackStuck: [player: Player, track: Track, payload: EventPayload];
+    queueRepeat: [player: Player, track: Track];
+    queueEnd: [player: Player];
+    socketClosed: [player: Player, payload: EventPayload];
+}
+
+interface Aqua {
+    on<K extends keyof AquaEvents>(event: K, listener: (...args: AquaEvents[K]) => void): this;
+    once<K extends keyof AquaEvents>(event: K, listener: (...args: AquaEvents[K]) => void): this;
+    off<K extends keyof AquaEvents>(event: K, listener: (...args: AquaEvents[K]) => void): this;
+    emit<K extends keyof AquaEvents>(event: K, ...args: AquaEvents[K]): boolean;
 }
 
 class Aqua extends EventEmitter {
     private client: any;
-    private nodes: any[];
+    private nodeConfigs: NodeConfig[];
     private nodeMap: Map<string, Node>;
     private players: Map<string, Player>;
     private clientId: string | null;
@@ -31,12 +129,21 @@ class Aqua extends EventEmitter {
     private options: AquaOptions;
     private send: (data: any) => void;
     private autoResume: boolean;
+    private nodeSelection: NodeSelectionStrategy | NodeSelector;
+    private roundRobinIndex: number;
+    public resolveCache: ResolveCacheStore | null;
+    private resolveCacheTtl: number;
+    private resolveCacheInclude: CacheableLoadType;
+    public playerStore: PlayerStore | null;
+    private snapshotDelay: number;
+    private snapshotTimers: Map<string, NodeJS.Timeout>;
+    private voiceStates: Map<string, Map<string, { channelId: string; bot: boolean }>>;
 
-    constructor(client: any, nodes: any[], options: AquaOptions) {
+    constructor(client: any, nodes: NodeConfig[], options: AquaOptions) {
         super();
         this.validateInputs(client, nodes, options);
         this.client = client;
-        this.nodes = nodes;
+        this.nodeConfigs = nodes;
         this.nodeMap = new Map();
         this.players = new Map();
         this.clientId = null;
@@ -49,6 +156,16 @@ class Aqua extends EventEmitter {
         this.options = options;
         this.send = options.send;
         this.autoResume = options.autoResume || false;
+        this.nodeSelection = options.nodeSelection || "region";
+        this.roundRobinIndex = 0;
+        const cacheOptions: ResolveCacheOptions | null = options.resolveCache === true ? {} : options.resolveCache || null;
+        this.resolveCache = cacheOptions ? cacheOptions.store ?? new MemoryResolveStore(cacheOptions.maxEntries) : null;
+        this.resolveCacheTtl = cacheOptions?.ttl ?? 300000;
+        this.resolveCacheInclude = cacheOptions?.include ?? "all";
+        this.playerStore = options.playerStore ?? null;
+        this.snapshotDelay = options.snapshotDelay ?? 1000;
+        this.snapshotTimers = new Map();
+        this.voiceStates = new Map();
         this.setMaxListeners(0);
     }
 
@@ -58,26 +175,116 @@ class Aqua extends EventEmitter {
         if (typeof options?.send !== "function") throw new Error("Send function is required to initialize Aqua");
     }
 
+    public get nodes(): ReadonlyMap<string, Node> {
+        return this.nodeMap;
+    }
+
     private get leastUsedNodes(): Node[] {
-        const activeNodes = [...this.nodeMap.values()].filter(node => node.connected);
-        return activeNodes.length ? activeNodes.sort((a, b) => a.rest.calls - b.rest.calls) : [];
+        const activeNodes = [...this.nodeMap.values()].filter(node => node.connected && !node.draining);
+        return activeNodes.sort((a, b) => a.penalties - b.penalties);
     }
 
     public init(clientId: string): this {
         if (this.initiated) return this;
         this.clientId = clientId;
         try {
-            this.nodes.forEach(nodeConfig => this.createNode(nodeConfig));
+            this.nodeConfigs.forEach(nodeConfig => this.createNode(nodeConfig));
             this.initiated = true;
             this.plugins.forEach(plugin => plugin.load(this));
         } catch (error) {
             this.initiated = false;
             throw error;
         }
+        if (this.playerStore) {
+            this.restoreSnapshots().catch(error => {
+                this.emit("debug", "Aqua", `Failed to load player snapshots: ${error.message}`);
+            });
+        }
         return this;
     }
 
-    private createNode(options: any): Node {
+    // Waits for the nodes to resume their sessions, then rebuilds every player saved before the last shutdown
+    private async restoreSnapshots(): Promise<void> {
+        const sessions = [...this.nodeMap.values()].map(node => new Promise(resolve => node.once("ready", resolve)));
+        await Promise.race(sessions);
+        // Give slower nodes a moment to resume too, without waiting on nodes that are down
+        let timer: NodeJS.Timeout;
+        await Promise.race([Promise.all(sessions), new Promise(resolve => timer = setTimeout(resolve, SNAPSHOT_RESTORE_GRACE))]);
+        clearTimeout(timer);
+        const snapshots = await this.playerStore.getAll();
+        for (const snapshot of snapshots) {
+            // Players resumed from a Lavalink session already have their state
+            if (this.players.has(snapshot.guildId)) continue;
+            try {
+                this.restorePlayer(snapshot);
+            } catch (error) {
+                this.emit("debug", snapshot.guildId, `Failed to restore player: ${error.message}`);
+                await this.playerStore.delete(snapshot.guildId);
+            }
+        }
+    }
+
+    /**
+     * Adds a node at runtime and starts connecting to it.
+     *
+     * @param {NodeConfig} config - The node configuration.
+     * @throws {Error} If a node with the same name already exists.
+     * @returns {Node} The created node.
+     */
+    public addNode(config: NodeConfig): Node {
+        this.ensureInitialized();
+        const name = config.name || config.host;
+        if (this.nodeMap.has(name)) throw new Error(`Node already exists: ${name}`);
+        return this.createNode(config);
+    }
+
+    /**
+     * Removes a node, moving its players to other nodes or destroying them.
+     *
+     * @param {string} name - The name of the node to remove.
+     * @param {Object} [options]
+     * @param {boolean} [options.migratePlayers=true] - Whether to move the node's players instead of destroying them.
+     */
+    public async removeNode(name: string, { migratePlayers = true }: { migratePlayers?: boolean } = {}): Promise<void> {
+        const node = this.nodeMap.get(name);
+        if (!node) throw new Error(`Node not found: ${name}`);
+        node.draining = true;
+        if (migratePlayers) {
+            await this.migratePlayers(node);
+        } else {
+            for (const player of [...this.players.values()]) {
+                if (player.nodes === node) this.cleanupPlayer(player);
+            }
+        }
+        this.destroyNode(name);
+    }
+
+    /**
+     * Stops a node from taking new players or resolve calls. Its current players
+     * keep playing until they are destroyed, unless they are moved away.
+     *
+     * @param {string} name - The name of the node to drain.
+     * @param {Object} [options]
+     * @param {boolean} [options.migratePlayers=false] - Whether to move the node's players right away.
+     */
+    public async drainNode(name: string, { migratePlayers = false }: { migratePlayers?: boolean } = {}): Promise<void> {
+        const node = this.nodeMap.get(name);
+        if (!node) throw new Error(`Node not found: ${name}`);
+        node.draining = true;
+        this.emit("nodeDrain", node);
+        if (migratePlayers) await this.migratePlayers(node);
+        this.checkDrained(node);
+    }
+
+    public checkDrained(node: Node): void {
+        if (!node?.draining) return;
+        for (const player of this.players.values()) {
+            if (player.nodes === node) return;
+        }
+        this.emit("nodeDrained", node);
+    }
+
+    private createNode(options: NodeConfig): Node {
         const nodeId = options.name || options.host;
         this.destroyNode(nodeId); // Ensure no duplicate nodes
         const node = new Node(this, options, this.options);
@@ -107,30 +314,136 @@ class Aqua extends EventEmitter {
 
     public updateVoiceState({ d, t }: { d: any; t: string }): void {
         const player = this.players.get(d.guild_id);
+        if (t === "VOICE_STATE_UPDATE" && d.user_id !== this.clientId) {
+            this.trackMemberVoiceState(d, player);
+            return;
+        }
         if (player && (t === "VOICE_SERVER_UPDATE" || (t === "VOICE_STATE_UPDATE" && d.user_id === this.clientId))) {
+            const previousChannel = player.connection.voiceChannel;
+            // The channel is known before the first update, so a missing voice session marks the initial join
+            const joined = player.connection.voiceData === null;
             player.connection[t === "VOICE_SERVER_UPDATE" ? "setServerUpdate" : "setStateUpdate"](d);
-            if (d.status === "disconnected") this.cleanupPlayer(player);
+            if (d.status === "disconnected") {
+                this.cleanupPlayer(player);
+            } else if (t === "VOICE_STATE_UPDATE" && d.channel_id && (joined || d.channel_id !== previousChannel)) {
+                this.seedVoiceStates(d.guild_id);
+                this.checkAlone(player);
+            }
+        }
+    }
+
+    // Replaces what is known about a guild's voice members with the client's cache, if one was given
+    private seedVoiceStates(guildId: string): void {
+        let states: Iterable<VoiceMemberState> | null | undefined;
+        try {
+            states = this.options.voiceStates?.(guildId);
+        } catch (error) {
+            this.emit("debug", guildId, `Failed to read voice states: ${error.message}`);
+        }
+        if (!states) return;
+        const members = new Map<string, { channelId: string; bot: boolean }>();
+        for (const { userId, channelId, bot } of states) {
+            if (channelId && userId !== this.clientId) members.set(userId, { channelId, bot: !!bot });
+        }
+        this.voiceStates.set(guildId, members);
+    }
+
+    // Follows other members' voice channels so players can tell when nobody is listening
+    private trackMemberVoiceState(d: any, player?: Player): void {
+        // Traffic alone misses members who were already in the channel, so only seeded guilds are followed
+        const members = this.voiceStates.get(d.guild_id);
+        if (!members) return;
+        const previousChannel = members.get(d.user_id)?.channelId ?? null;
+        if (d.channel_id) {
+            members.set(d.user_id, { channelId: d.channel_id, bot: !!d.member?.user?.bot });
+        } else {
+            members.delete(d.user_id);
+        }
+        const playerChannel = player?.connection.voiceChannel;
+        if (!playerChannel || previousChannel === d.channel_id || d.member?.user?.bot) return;
+        if (d.channel_id === playerChannel) {
+            player.cancelInactivityTimers("alone");
+        } else if (previousChannel === playerChannel) {
+            this.checkAlone(player);
+        }
+    }
+
+    private checkAlone(player: Player): void {
+        const channelId = player.connection.voiceChannel;
+        const members = this.voiceStates.get(player.guildId);
+        // Unknown members are not the same as no members
+        if (!members) return;
+        let listeners = 0;
+        for (const member of members.values()) {
+            if (member.channelId === channelId && !member.bot) listeners++;
+        }
+        if (listeners) {
+            player.cancelInactivityTimers("alone");
+        } else {
+            player.startInactivityTimer("alone");
         }
     }
 
     public fetchRegion(region?: string): Node[] {
         if (!region) return this.leastUsedNodes;
         const lowerRegion = region.toLowerCase();
-        const eligibleNodes = [...this.nodeMap.values()].filter(node => node.connected && node.regions?.includes(lowerRegion));
-        return eligibleNodes.sort((a, b) => this.calculateLoad(a) - this.calculateLoad(b));
+        const eligibleNodes = [...this.nodeMap.values()].filter(node => node.connected && !node.draining && node.regions?.includes(lowerRegion));
+        return eligibleNodes.sort((a, b) => a.penalties - b.penalties);
+    }
+
+    /**
+     * Picks a node for a new player or request using the configured `nodeSelection` strategy.
+     *
+     * @param {Object} [context] - Extra information for the strategy, such as the voice region or search source.
+     * @param {Node} [exclude] - A node that must not be picked.
+     * @returns {Node|undefined} The selected node, or undefined if none is connected.
+     */
+    public selectNode(context: { region?: string; source?: string } = {}, exclude?: Node): Node | undefined {
+        const nodes = this.leastUsedNodes.filter(node => node !== exclude && (!context.source || node.supportsSource(context.source)));
+        if (!nodes.length) return undefined;
+        if (typeof this.nodeSelection === "function") {
+            return this.nodeSelection(nodes, { ...context, aqua: this });
+        }
+        switch (this.nodeSelection) {
+            case "leastPlayers":
+                return nodes.sort((a, b) => a.stats.playingPlayers - b.stats.playingPlayers)[0];
+            case "roundRobin":
+                return nodes.sort((a, b) => a.name.localeCompare(b.name))[this.roundRobinIndex++ % nodes.length];
+            case "region":
+                if (context.region) {
+                    const region = context.region.toLowerCase();
+                    const regional = nodes.find(node => node.regions?.includes(region));
+                    if (regional) return regional;
+                }
+                return nodes[0];
+            default:
+                return nodes[0];
+        }
     }
 
-    private calculateLoad(node: Node): number {
-        if (!node?.stats?.cpu) return 0;
-        const { systemLoad, cores } = node.stats.cpu;
-        return (systemLoad / cores) * 100;
+    public async migratePlayers(node: Node): Promise<void> {
+        for (const player of [...this.players.values()]) {
+            if (player.nodes !== node) continue;
+            const target = this.selectNode({ region: player.connection.region }, node);
+            if (!target) {
+                this.cleanupPlayer(player);
+                continue;
+            }
+            try {
+                await player.migrate(target);
+                this.emit("playerMigrate", player, node, target);
+            } catch (error) {
+                this.emit("debug", player.guildId, `Failed to migrate player to ${target.name}: ${error.message}`);
+                this.cleanupPlayer(player);
+            }
+        }
     }
 
     public createConnection(options: { guildId: string; region?: string }): Player {
         this.ensureInitialized();
         const player = this.players.get(options.guildId);
         if (player && player.voiceChannel) return player;
-        const node = options.region ? this.fetchRegion(options.region)[0] : this.leastUsedNodes[0];
+        const node = this.selectNode({ region: options.region });
         if (!node) throw new Error("No nodes are available");
         return this.createPlayer(node, options);
     }
@@ -145,6 +458,87 @@ class Aqua extends EventEmitter {
         return player;
     }
 
+    /**
+     * Rebuilds a player from a snapshot taken with `player.toJSON()`, rejoining its voice
+     * channel and resuming the current track where it left off.
+     *
+     * @param {PlayerSnapshot} snapshot - The saved player state.
+     * @throws {Error} If the snapshot has no voice channel or no node is available.
+     * @returns {Player} The restored player.
+     */
+    public restorePlayer(snapshot: PlayerSnapshot): Player {
+        this.ensureInitialized();
+        if (!snapshot?.guildId || !snapshot.voiceChannel) throw new Error("Snapshot must include a guild and voice channel");
+        const savedNode = snapshot.node ? this.nodeMap.get(snapshot.node) : undefined;
+        const node = savedNode?.connected && !savedNode.draining ? savedNode : this.selectNode({});
+        if (!node) throw new Error("No nodes are available");
+        const options = {
+            guildId: snapshot.guildId,
+            voiceChannel: snapshot.voiceChannel,
+            textChannel: snapshot.textChannel ?? undefined,
+            deaf: snapshot.deaf,
+            mute: snapshot.mute,
+            defaultVolume: snapshot.volume,
+            loop: snapshot.loop
+        };
+        const player = this.createPlayer(node, options);
+        const toTrack = (data: any) => new Track({ encoded: data.encoded, info: data.info }, data.requester ?? null, node);
+        player.restore(snapshot, {
+            current: snapshot.current ? toTrack(snapshot.current) : null,
+            queue: (snapshot.queue ?? []).map(toTrack),
+            history: (snapshot.history ?? []).map(toTrack)
+        });
+        this.emit("playerRestore", player, snapshot);
+        return player;
+    }
+
+    /**
+     * Saves a snapshot of the player to the configured store right away.
+     *
+     * @param {Player} player - The player to save.
+     */
+    public async savePlayer(player: Player): Promise<void> {
+        if (!this.playerStore || !player?.guildId) return;
+        clearTimeout(this.snapshotTimers.get(player.guildId));
+        this.snapshotTimers.delete(player.guildId);
+        if (player.state === "destroyed" || !this.players.has(player.guildId)) return;
+        const snapshot = player.toJSON();
+        // A resumed player may not know its channel until Discord sends a voice update
+        if (!snapshot.voiceChannel) {
+            snapshot.voiceChannel = (await this.playerStore.get(player.guildId))?.voiceChannel ?? null;
+        }
+        await this.playerStore.set(player.guildId, snapshot);
+    }
+
+    /**
+     * Saves a snapshot of the player `snapshotDelay` ms after its first unsaved change.
+     * Changes made in the meantime go into the same save.
+     *
+     * @param {Player} player - The player that changed.
+     */
+    public schedulePlayerSave(player: Player): void {
+        if (!this.playerStore || !player?.guildId || this.snapshotTimers.has(player.guildId)) return;
+        const timer = setTimeout(() => {
+            this.savePlayer(player).catch(error => {
+                this.emit("debug", player.guildId, `Failed to save player snapshot: ${error.message}`);
+            });
+        }, this.snapshotDelay);
+        timer.unref?.();
+        this.snapshotTimers.set(player.guildId, timer);
+    }
+
+    public rehydratePlayer(node: Node, data: any): Player {
+        let player = this.players.get(data.guildId);
+        if (!player) {
+            player = new Player(this, node, { guildId: data.guildId, defaultVolume: data.volume });
+            this.players.set(data.guildId, player);
+            player.once("destroy", () => this.cleanupPlayer(player));
+        }
+        const track = data.track ? new Track(data.track, player.current?.requester ?? null, node) : null;
+        player.rehydrate(node, data, track);
+        return player;
+    }
+
     private destroyPlayer(guildId: string): void {
         const player = this.players.get(guildId);
         if (!player) return;
@@ -161,27 +555,55 @@ class Aqua extends EventEmitter {
 
     public async resolve({ query, source = this.defaultSearchPlatform, requester, nodes }: { query: string; source?: string; requester: any; nodes?: string | Node }): Promise<any> {
         this.ensureInitialized();
-        const requestNode = this.getRequestNode(nodes);
+        const isUrl = URL_REGEX.test(query);
+        const requestNode = this.getRequestNode(nodes, isUrl ? undefined : source);
         const formattedQuery = this.formatQuery(query, source);
+        const cacheKey = this.resolveCache ? this.getCacheKey(query, source, isUrl) : null;
         try {
-            const response = await requestNode.rest.makeRequest("GET", `/v4/loadtracks?identifier=${encodeURIComponent(formattedQuery)}`);
+            const cached = cacheKey ? await this.resolveCache.get(cacheKey) : undefined;
+            if (cached) return this.constructorResponse(cached, requester, requestNode);
+            const response = await requestNode.rest.getTracks(formattedQuery);
             if (["empty", "NO_MATCHES"].includes(response.loadType)) {
                 return await this.handleNoMatches(requestNode.rest, query);
             }
+            if (cacheKey && this.isCacheable(response)) {
+                await this.resolveCache.set(cacheKey, response, this.resolveCacheTtl);
+            }
             return this.constructorResponse(response, requester, requestNode);
         } catch (error) {
-            if (error.name === 'AbortError') {
-                throw new Error("Request timed out");
-            }
+            if (error instanceof RestError) throw error;
             throw new Error(`Failed to resolve track: ${error.message}`);
         }
     }
 
-    private getRequestNode(nodes?: string | Node): Node {
+    private getRequestNode(nodes?: string | Node, source?: string): Node {
         if (nodes && !(typeof nodes === "string" || nodes instanceof Node)) {
             throw new TypeError(`'nodes' must be a string or Node instance, received: ${typeof nodes}`);
         }
-        return (typeof nodes === 'string' ? this.nodeMap.get(nodes) : nodes) ?? this.leastUsedNodes[0];
+        const node = typeof nodes === 'string' ? this.nodeMap.get(nodes) : nodes;
+        if (node && !node.draining) return node;
+        const selected = this.selectNode({ source });
+        if (!selected) {
+            throw new Error(source ? `No connected node supports the '${source}' source` : "No nodes are available");
+        }
+        return selected;
+    }
+
+    private getCacheKey(query: string, source: string, isUrl: boolean): string {
+        const trimmed = query.trim();
+        return isUrl ? trimmed : `${source.toLowerCase()}:${trimmed.toLowerCase()}`;
+    }
+
+    private isCacheable(response: LoadResult): boolean {
+        switch (response.loadType) {
+            case "search":
+                return this.resolveCacheInclude !== "tracks";
+            case "track":
+            case "playlist":
+                return this.resolveCacheInclude !== "search";
+            default:
+                return false;
+        }
     }
 
     private ensureInitialized(): void {
@@ -194,9 +616,9 @@ class Aqua extends EventEmitter {
 
     private async handleNoMatches(rest: any, query: string): Promise<any> {
         try {
-            const youtubeResponse = await rest.makeRequest("GET", `/v4/loadtracks?identifier=https://www.youtube.com/watch?v=${query}`);
+            const youtubeResponse = await rest.getTracks(`https://www.youtube.com/watch?v=${query}`);
             if (["empty", "NO_MATCHES"].includes(youtubeResponse.loadType)) {
-                return await rest.makeRequest("GET", `/v4/loadtracks?identifier=https://open.spotify.com/track/${query}`);
+                return await rest.getTracks(`https://open.spotify.com/track/${query}`);
             }
             return youtubeResponse;
         } catch (error) {
@@ -245,39 +667,45 @@ class Aqua extends EventEmitter {
         return player;
     }
 
-    public cleanupIdle(): void {
-        const now = Date.now();
-        for (const [guildId, player] of this.players) {
-            if (!player.playing && !player.paused && player.queue.isEmpty() && (now - player.lastActivity) > (this.options.idleTimeout || 60000)) {
-                this.cleanupPlayer(player);
-            }
-        }
-    }
-
-    private cleanupPlayer(player: Player): void {
+    private cleanupPlayer(player: Player, keepSnapshot = false): void {
         if (!player) return;
+        if (this.playerStore && !keepSnapshot) {
+            clearTimeout(this.snapshotTimers.get(player.guildId));
+            this.snapshotTimers.delete(player.guildId);
+            Promise.resolve(this.playerStore.delete(player.guildId)).catch(error => {
+                this.emit("debug", player.guildId, `Failed to delete player snapshot: ${error.message}`);
+            });
+        }
         try {
             player.clearData();
             player.removeAllListeners();
             player.destroy();
             this.players.delete(player.guildId);
             this.emit("playerDestroy", player);
+            this.checkDrained(player.nodes);
         } catch (error) {
             console.error(`Error during player cleanup: ${error.message}`);
         }
     }
 
     public cleanup(): void {
+        // Snapshots outlive a shutdown so the players can be restored on the next start,
+        // and are saved one last time since position updates alone do not trigger a save
         for (const player of this.players.values()) {
-            this.cleanupPlayer(player);
+            this.savePlayer(player).catch(error => {
+                this.emit("debug", player.guildId, `Failed to save player snapshot: ${error.message}`);
+            });
+            this.cleanupPlayer(player, true);
         }
+        this.snapshotTimers.clear();
+        this.voiceStates.clear();
         for (const node of this.nodeMap.values()) {
             this.destroyNode(node.name || node.host);
         }
         this.nodeMap.clear();
         this.players.clear();
         this.client = null;
-        this.nodes = null;
+        this.nodeConfigs = null;
         this.plugins?.forEach(plugin => plugin.unload?.(this));
         this.plugins = null;
         this.options = null;
@@ -287,4 +715,5 @@ class Aqua extends EventEmitter {
     }
 }
 
-export { Aqua };
\ No newline at end of file
+export { Aqua };
+export type { AquaEvents, AquaOptions, VoiceMemberState };
\ No newline at end of file
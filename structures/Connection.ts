@@ -9,10 +9,10 @@ interface Voice {
 class Connection {
     private player: Player | null;
     private voice: Voice;
-    private region: string | null;
+    public region: string | null;
     private selfDeaf: boolean;
     private selfMute: boolean;
-    private voiceChannel: string | null;
+    public voiceChannel: string | null;
     private lastUpdateTime: number;
     private updateThrottle: number;
 
@@ -27,6 +27,11 @@ class Connection {
         this.updateThrottle = 1000; // Throttle time in milliseconds
     }
 
+    get voiceData(): Voice | null {
+        const { sessionId, endpoint, token } = this.voice;
+        return sessionId && endpoint && token ? { ...this.voice } : null;
+    }
+
     setServerUpdate({ endpoint, token }: { endpoint: string; token: string }): void {
         if (!endpoint) throw new Error("Missing 'endpoint' property in VOICE_SERVER_UPDATE");
 
@@ -35,6 +40,21 @@ class Connection {
             this.updateRegion(newRegion, endpoint, token);
         }
         this.updatePlayerVoiceData();
+        if (this.player?.state === "connecting") this.player.setState("connected");
+    }
+
+    /**
+     * Takes over the voice connection Lavalink kept for a resumed player,
+     * so the player can be migrated or moved before Discord sends fresh voice updates.
+     */
+    restoreVoice(voice: { token?: string; endpoint?: string; sessionId?: string; channelId?: string } | null): void {
+        if (!voice?.endpoint || !voice.token || !voice.sessionId) return;
+        this.voice = { sessionId: voice.sessionId, endpoint: voice.endpoint, token: voice.token };
+        this.region = voice.endpoint.split('.')[0].replace(/[0-9]/g, "");
+        if (voice.channelId) {
+            this.voiceChannel = voice.channelId;
+            if (this.player) this.player.voiceChannel ??= voice.channelId;
+        }
     }
 
     private updateRegion(newRegion: string, endpoint: string, token: string): void {
@@ -47,7 +67,7 @@ class Connection {
             ? `Changed Voice Region from ${previousVoiceRegion} to ${this.region}`
             : `Voice Server: ${this.region}`;
 
-        this.player?.aqua.emit("debug", `[Player ${this.player.guildId} - CONNECTION] ${message}`);
+        this.player?.aqua.emit("debug", this.player.guildId, `[CONNECTION] ${message}`);
     }
 
     setStateUpdate(data: { channel_id: string; session_id: string; self_deaf: boolean; self_mute: boolean }): void {
@@ -57,7 +77,7 @@ class Connection {
         }
 
         if (this.voiceChannel !== data.channel_id) {
-            this.player?.aqua.emit("playerMove", this.voiceChannel, data.channel_id);
+            this.player?.aqua.emit("playerMove", this.player, this.voiceChannel, data.channel_id);
             this.voiceChannel = data.channel_id;
         }
 
@@ -86,9 +106,8 @@ class Connection {
     }
 
     cleanup(): void {
-        this.player?.aqua.emit("playerLeave", this.player.voiceChannel);
+        this.player?.aqua.emit("playerLeave", this.player, this.player.voiceChannel);
         this.player?.destroy();
-        this.player?.aqua.emit("playerDestroy", this.player);
         this.player = null;
         this.voice = { sessionId: null, endpoint: null, token: null };
         this.region = null;
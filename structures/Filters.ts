@@ -231,8 +231,8 @@ class Filters {
         return this;
     }
 
-    async updateFilters(): Promise<this> {
-        const filterData = {
+    toJSON(): FilterOptions {
+        return {
             volume: this.volume,
             equalizer: this.equalizer,
             karaoke: this.karaoke,
@@ -244,12 +244,26 @@ class Filters {
             channelMix: this.channelMix,
             lowPass: this.lowPass
         };
-        await this.player.nodes.rest.updatePlayer({
+    }
+
+    async updateFilters(): Promise<this> {
+        const filters = this.toJSON();
+        const node = this.player.nodes;
+        for (const name of Object.keys(filters)) {
+            if (node.supportsFilter(name)) continue;
+            if (filters[name] != null && (!Array.isArray(filters[name]) || filters[name].length)) {
+                this.player.aqua.emit("debug", this.player.guildId, `Dropping filter '${name}', not supported by node ${node.name}`);
+            }
+            delete filters[name];
+        }
+        await node.rest.updatePlayer({
             guildId: this.player.guildId,
-            data: { filters: filterData }
+            data: { filters }
         });
+        this.player.aqua.schedulePlayerSave(this.player);
         return this;
     }
 }
 
-export { Filters };
\ No newline at end of file
+export { Filters };
+export type { FilterOptions };
\ No newline at end of file
@@ -1,12 +1,26 @@
 import WebSocket from "ws";
-import { Rest } from "./Rest";
+import { EventEmitter } from "events";
+import { Rest, Info } from "./Rest";
+
+interface ReconnectPolicy {
+    baseDelay: number;
+    maxDelay: number;
+    multiplier: number;
+    jitter: number;
+    maxAttempts: number; // Infinity retries forever
+}
 
 interface NodeOptions {
-    resumeKey?: string | null;
     resumeTimeout?: number;
     autoResume?: boolean;
     reconnectTimeout?: number;
     reconnectTries?: number;
+    reconnectPolicy?: Partial<ReconnectPolicy>;
+    heartbeatInterval?: number;
+    staleTimeout?: number;
+    requestTimeout?: number;
+    requestRetries?: number;
+    maxConcurrentRequests?: number;
 }
 
 interface NodeConfig {
@@ -42,12 +56,52 @@ interface StatsPayload {
     };
 }
 
-class Node {
+interface NodeCapabilities {
+    sourceManagers: ReadonlySet<string>;
+    filters: ReadonlySet<string>;
+    plugins: ReadonlyMap<string, string>;
+}
+
+// Maps search prefixes to the Lavalink source manager that handles them
+const SEARCH_SOURCES: Readonly<Record<string, string>> = Object.freeze({
+    ytsearch: "youtube",
+    ytmsearch: "youtube",
+    scsearch: "soundcloud",
+    spsearch: "spotify",
+    sprec: "spotify",
+    amsearch: "applemusic",
+    dzsearch: "deezer",
+    dzisrc: "deezer",
+    ymsearch: "yandexmusic",
+    bcsearch: "bandcamp"
+});
+
+interface NodeEvents {
+    ready: [resumed: boolean];
+    stats: [stats: Node["stats"]];
+    disconnect: [code: number, reason: string];
+    reconnecting: [attempt: number, delay: number];
+    resume: [guildIds: string[]];
+    destroy: [];
+}
+
+interface Node {
+    on<K extends keyof NodeEvents>(event: K, listener: (...args: NodeEvents[K]) => void): this;
+    once<K extends keyof NodeEvents>(event: K, listener: (...args: NodeEvents[K]) => void): this;
+    off<K extends keyof NodeEvents>(event: K, listener: (...args: NodeEvents[K]) => void): this;
+    emit<K extends keyof NodeEvents>(event: K, ...args: NodeEvents[K]): boolean;
+}
+
+class Node extends EventEmitter {
     // Private fields using # for better encapsulation
     #ws: WebSocket | null = null;
     #statsCache = new WeakMap<Node, any>();
     #lastStatsRequest = 0;
     #reconnectAttempted = 0;
+    #reconnectTimer: NodeJS.Timeout | null = null;
+    #heartbeatTimer: NodeJS.Timeout | null = null;
+    #lastHeardAt = 0;
+    #pingSentAt = 0;
     
     public aqua: any; // Replace `any` with the actual type of `aqua`
     public name: string;
@@ -59,16 +113,22 @@ class Node {
     public regions: string[];
     public wsUrl: URL;
     public rest: Rest;
-    public resumeKey: string | null;
     public resumeTimeout: number;
     public autoResume: boolean;
-    public reconnectTimeout: number;
-    public reconnectTries: number;
+    public reconnectPolicy: Readonly<ReconnectPolicy>;
+    public heartbeatInterval: number;
+    public staleTimeout: number;
+    public requestTimeout: number;
+    public requestRetries: number;
+    public maxConcurrentRequests: number;
     public connected: boolean;
-    public info: any; // Replace `any` with the actual type of `info`
+    public draining: boolean;
+    public info: Info | null;
+    public capabilities: NodeCapabilities | null;
     public stats: any; // Replace `any` with the actual type of `stats`
 
     constructor(aqua: any, nodes: NodeConfig, options: NodeOptions) {
+        super();
         const { 
             name, 
             host = "localhost", 
@@ -91,18 +151,30 @@ class Node {
 
         // Configuration
         this.wsUrl = new URL(`ws${secure ? 's' : ''}://${host}:${port}/v4/websocket`);
-        this.rest = new Rest(aqua, this);
 
         // Connection options
-        this.resumeKey = options?.resumeKey ?? null;
         this.resumeTimeout = options?.resumeTimeout ?? 60;
         this.autoResume = options?.autoResume ?? false;
-        this.reconnectTimeout = options?.reconnectTimeout ?? 2000;
-        this.reconnectTries = options?.reconnectTries ?? 3;
+        this.reconnectPolicy = Object.freeze({
+            baseDelay: options?.reconnectTimeout ?? 2000,
+            maxDelay: 30000,
+            multiplier: 2,
+            jitter: 0.2,
+            maxAttempts: options?.reconnectTries ?? 3,
+            ...options?.reconnectPolicy
+        });
+        this.heartbeatInterval = options?.heartbeatInterval ?? 30000;
+        this.staleTimeout = options?.staleTimeout ?? 90000; // Lavalink sends stats every 60s
+        this.requestTimeout = options?.requestTimeout ?? 10000;
+        this.requestRetries = options?.requestRetries ?? 2;
+        this.maxConcurrentRequests = options?.maxConcurrentRequests ?? 10;
+        this.rest = new Rest(aqua, this);
 
         // State
         this.connected = false;
+        this.draining = false;
         this.info = null;
+        this.capabilities = null;
 
         // Initialize stats with frozen objects to prevent modifications
         this.stats = Object.freeze(this.#createStats());
@@ -132,11 +204,13 @@ class Node {
                 nulled: 0,
                 deficit: 0
             }),
-            ping: 0
+            ping: 0,
+            requests: this.rest.metrics
         };
     }
 
     async connect(): Promise<void> {
+        this.#clearReconnect();
         this.#cleanup();
         try {
             this.#ws = new WebSocket(this.wsUrl.href, {
@@ -151,7 +225,14 @@ class Node {
         }
     }
 
+    disconnect(): void {
+        this.#clearReconnect();
+        this.#cleanup();
+        this.connected = false;
+    }
+
     #cleanup(): void {
+        this.#stopHeartbeat();
         if (this.#ws) {
             try {
                 this.#ws.removeAllListeners();
@@ -170,7 +251,6 @@ class Node {
             "Client-Name": `Aqua/${this.aqua.version}`,
         };
         if (this.sessionId) headers["Session-Id"] = this.sessionId;
-        if (this.resumeKey) headers["Resume-Key"] = this.resumeKey;
         return Object.freeze(headers);
     }
 
@@ -180,23 +260,57 @@ class Node {
         ws.once("open", this.#onOpen.bind(this));
         ws.once("error", this.#onError.bind(this));
         ws.on("message", this.#onMessage.bind(this));
+        ws.on("pong", this.#onPong.bind(this));
         ws.once("close", this.#onClose.bind(this));
     }
 
     async #onOpen(): Promise<void> {
         this.connected = true;
         this.aqua.emit('debug', this.name, `Connected to ${this.wsUrl.href}`);
+        this.#startHeartbeat();
         try {
-            this.info = await this.rest.makeRequest("GET", "/v4/info");
-            if (this.autoResume) await this.resumePlayers();
+            this.info = await this.rest.getInfo();
+            this.capabilities = this.#parseCapabilities(this.info);
         } catch (err) {
             this.info = null;
+            this.capabilities = null;
             if (!this.aqua.bypassChecks?.nodeFetchInfo) {
-                this.aqua.emit('error', `Failed to fetch node info: ${err.message}`);
+                this.aqua.emit("nodeError", this, new Error(`Failed to fetch node info: ${err.message}`));
             }
         }
     }
 
+    #parseCapabilities(info: Info): NodeCapabilities {
+        const lower = (values: unknown) => Array.isArray(values) ? values.map(value => String(value).toLowerCase()) : [];
+        return Object.freeze({
+            sourceManagers: new Set(lower(info?.sourceManagers)),
+            filters: new Set(lower(info?.filters)),
+            plugins: new Map((info?.plugins ?? []).map(({ name, version }) => [name.toLowerCase(), version] as [string, string]))
+        });
+    }
+
+    /**
+     * Checks whether the node reported a source manager, filter or plugin in `/v4/info`.
+     * Plugins match with or without their `-plugin` suffix. Nodes whose info is unknown support everything.
+     */
+    supports(name: string): boolean {
+        if (!this.capabilities) return true;
+        const key = name.toLowerCase();
+        const { sourceManagers, filters, plugins } = this.capabilities;
+        return sourceManagers.has(key) || filters.has(key) || plugins.has(key) || plugins.has(`${key}-plugin`);
+    }
+
+    supportsSource(source: string): boolean {
+        if (!this.capabilities) return true;
+        const key = source.toLowerCase();
+        return this.capabilities.sourceManagers.has(SEARCH_SOURCES[key] ?? key);
+    }
+
+    supportsFilter(filter: string): boolean {
+        if (!this.capabilities) return true;
+        return this.capabilities.filters.has(filter.toLowerCase());
+    }
+
     async getStats(): Promise<any> { // Replace `any` with the actual type of stats
         const now = Date.now();
         const STATS_COOLDOWN = 60000; // Update every 1 minute.
@@ -204,13 +318,13 @@ class Node {
             return this.#statsCache.get(this) ?? this.stats;
         }
         try {
-            const stats = await this.rest.makeRequest("GET", "/v4/stats");
+            const stats = await this.rest.getStats();
             this.#updateStats(stats);
             this.#lastStatsRequest = now;
             this.#statsCache.set(this, this.stats);
             return this.stats;
         } catch (err) {
-            this.aqua.emit('debug', `Stats fetch error: ${err.message}`);
+            this.aqua.emit('debug', this.name, `Stats fetch error: ${err.message}`);
             return this.stats;
         }
     }
@@ -221,12 +335,14 @@ class Node {
             players: payload.players ?? 0,
             playingPlayers: payload.playingPlayers ?? 0,
             uptime: payload.uptime ?? 0,
-            ping: payload.ping ?? 0,
+            ping: payload.ping ?? this.stats.ping,
             memory: this.#updateMemoryStats(payload.memory),
             cpu: this.#updateCpuStats(payload.cpu),
-            frameStats: this.#updateFrameStats(payload.frameStats)
+            frameStats: this.#updateFrameStats(payload.frameStats),
+            requests: this.rest.metrics
         };
         this.stats = Object.freeze(newStats);
+        this.emit("stats", this.stats);
     }
 
     #updateMemoryStats(memory: any = {}): any { // Replace `any` with the actual type of memory
@@ -261,6 +377,7 @@ class Node {
 
     // More optimized message handling
     #onMessage(msg: WebSocket.Data): void {
+        this.#lastHeardAt = Date.now();
         try {
             const payload = JSON.parse(msg.toString());
             if (!payload?.op) return;
@@ -275,42 +392,132 @@ class Node {
                     this.#handlePlayerOp(payload);
             }
         } catch (err) {
-            this.aqua.emit('debug', `Message parse error: ${err.message}`);
+            this.aqua.emit('debug', this.name, `Message parse error: ${err.message}`);
         }
     }
 
-    #handleReadyOp(payload: any): void { // Replace `any` with the actual type of payload
+    async #handleReadyOp(payload: any): Promise<void> { // Replace `any` with the actual type of payload
+        this.#reconnectAttempted = 0;
         if (this.sessionId !== payload.sessionId) {
             this.sessionId = payload.sessionId;
             this.rest.setSessionId(payload.sessionId);
         }
         this.aqua.emit("nodeConnect", this);
+        try {
+            if (this.autoResume) {
+                await this.rest.updateSession({ resuming: true, timeout: this.resumeTimeout });
+                if (payload.resumed) await this.resumePlayers();
+            }
+        } catch (err) {
+            this.aqua.emit('debug', this.name, `Session resume failed: ${err.message}`);
+        } finally {
+            // Emitted once resumed players are back, so listeners see the full session
+            this.emit("ready", payload.resumed ?? false);
+        }
+    }
+
+    async resumePlayers(): Promise<string[]> {
+        const players = await this.rest.getPlayers();
+        const restored: string[] = [];
+        for (const data of players ?? []) {
+            if (!data?.guildId) continue;
+            this.aqua.rehydratePlayer(this, data);
+            restored.push(data.guildId);
+        }
+        this.aqua.emit("nodeResume", this, restored);
+        this.emit("resume", restored);
+        return restored;
     }
 
     #handlePlayerOp(payload: any): void { // Replace `any` with the actual type of payload
         const player = this.aqua.players.get(payload.guildId);
-        player?.emit(payload.op, payload);
+        // A player moved to another node may still get frames from this one; only its current node speaks for it
+        if (player?.nodes !== this) return;
+        player.emit(payload.op, payload);
     }
 
     #onError(error: Error): void {
         this.aqua.emit("nodeError", this, error);
     }
 
+    #startHeartbeat(): void {
+        this.#stopHeartbeat();
+        this.#lastHeardAt = Date.now();
+        this.#heartbeatTimer = setInterval(() => this.#heartbeat(), this.heartbeatInterval);
+        this.#heartbeatTimer.unref?.();
+    }
+
+    #stopHeartbeat(): void {
+        if (this.#heartbeatTimer) {
+            clearInterval(this.#heartbeatTimer);
+            this.#heartbeatTimer = null;
+        }
+    }
+
+    #heartbeat(): void {
+        const ws = this.#ws;
+        if (!ws) return;
+        if (Date.now() - this.#lastHeardAt > this.staleTimeout) {
+            this.aqua.emit('debug', this.name, `No data received for ${this.staleTimeout}ms, terminating stale connection`);
+            this.#stopHeartbeat();
+            ws.terminate(); // Fires "close", which schedules a reconnect
+            return;
+        }
+        try {
+            this.#pingSentAt = Date.now();
+            ws.ping();
+        } catch (err) {
+            this.aqua.emit('debug', this.name, `Heartbeat ping failed: ${err.message}`);
+        }
+    }
+
+    #onPong(): void {
+        const now = Date.now();
+        this.#lastHeardAt = now;
+        if (!this.#pingSentAt) return;
+        this.stats = Object.freeze({ ...this.stats, ping: now - this.#pingSentAt });
+        this.#pingSentAt = 0;
+    }
+
     #onClose(code: number, reason: string): void {
+        this.#stopHeartbeat();
         this.connected = false;
         this.aqua.emit("nodeDisconnect", this, { code, reason });
+        this.emit("disconnect", code, reason);
         this.#reconnect();
     }
 
     #reconnect(): void {
-        if (++this.#reconnectAttempted >= this.reconnectTries) {
-            this.aqua.emit("nodeError", this, new Error(`Max reconnection attempts reached (${this.reconnectTries})`));
+        this.#clearReconnect();
+        const { maxAttempts } = this.reconnectPolicy;
+        if (++this.#reconnectAttempted > maxAttempts) {
+            this.aqua.emit("nodeError", this, new Error(`Max reconnection attempts reached (${maxAttempts})`));
             return this.destroy();
         }
-        setTimeout(() => {
+        const attempt = this.#reconnectAttempted;
+        const delay = this.#getReconnectDelay(attempt);
+        this.aqua.emit("nodeReconnecting", this, attempt, delay);
+        this.emit("reconnecting", attempt, delay);
+        this.#reconnectTimer = setTimeout(() => {
+            this.#reconnectTimer = null;
             this.aqua.emit("nodeReconnect", this);
             this.connect();
-        }, this.reconnectTimeout * this.#reconnectAttempted); // Exponential backoff
+        }, delay);
+    }
+
+    // Exponential backoff with +/- jitter, capped at maxDelay
+    #getReconnectDelay(attempt: number): number {
+        const { baseDelay, maxDelay, multiplier, jitter } = this.reconnectPolicy;
+        const delay = Math.min(baseDelay * Math.pow(multiplier, attempt - 1), maxDelay);
+        const spread = delay * jitter * (Math.random() * 2 - 1);
+        return Math.round(Math.min(Math.max(delay + spread, 0), maxDelay));
+    }
+
+    #clearReconnect(): void {
+        if (this.#reconnectTimer) {
+            clearTimeout(this.#reconnectTimer);
+            this.#reconnectTimer = null;
+        }
     }
 
     // Performance optimized penalties calculation
@@ -330,26 +537,24 @@ class Node {
     destroy(clean = false): void {
         if (clean) {
             this.aqua.emit("nodeDestroy", this);
-            this.aqua.nodes.delete(this.name);
+            this.emit("destroy");
+            this.aqua.nodeMap.delete(this.name);
             return;
         }
-        // Cleanup all players using this node
-        if (this.connected) {
-            for (const player of this.aqua.players.values()) {
-                if (player.node === this) {
-                    player.destroy();
-                }
-            }
-        }
+        // Move all players using this node to the best remaining one
         this.#cleanup();
         this.connected = false;
+        this.aqua.migratePlayers(this);
         this.aqua.nodeMap.delete(this.name);
         this.aqua.emit("nodeDestroy", this);
+        this.emit("destroy");
         // Clear references
         this.info = null;
+        this.capabilities = null;
         this.#statsCache = new WeakMap();
         this.stats = Object.freeze(this.#createStats());
     }
 }
 
-export { Node };
\ No newline at end of file
+export { Node };
+export type { NodeCapabilities, NodeConfig, NodeEvents, ReconnectPolicy };
\ No newline at end of file
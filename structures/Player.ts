@@ -2,6 +2,9 @@ import { EventEmitter } from "events";
 import { Connection } from "./Connection";
 import { Queue } from "./Queue";
 import { Filters } from "./Filters";
+import type { Lyrics, LyricsLine, PlayerState } from "./Rest";
+import type { PlayerSnapshot, TrackSnapshot } from "./PlayerStore";
+import { PLUGIN_EVENTS, PluginEventPayload } from "./PluginEvents";
 
 interface PlayerOptions {
     guildId?: string;
@@ -12,20 +15,43 @@ interface PlayerOptions {
     defaultVolume?: number;
     loop?: "none" | "track" | "queue";
     shouldDeleteMessage?: boolean;
+    autoplay?: boolean;
+    fadeIn?: number;
+    fadeOut?: number;
+    historySize?: number;
+    inactivityTimeouts?: InactivityTimeouts;
+    twentyFourSeven?: boolean;
+    trackRetries?: number;
 }
 
-interface PlayerState {
-    connected: boolean;
-    position: number;
-    ping: number;
-    time: number;
-}
+// Handles a Lavalink event type that is not one of the core track events
+type PlayerEventHandler = (player: Player, track: Track | null, payload: PluginEventPayload) => void;
+
+type InactivityReason = "queueEnd" | "paused" | "alone";
+
+// Milliseconds before an inactive player is destroyed; 0 or unset disables the timer
+type InactivityTimeouts = Partial<Record<InactivityReason, number>>;
 
 interface Track {
     track: string;
+    info?: { identifier: string; title: string; author: string; uri?: string; sourceName: string; length?: number; isStream?: boolean };
+    requester?: any;
     resolve: (aqua: any) => Track; // Replace `any` with the actual type of `aqua`
 }
 
+// Returns candidate tracks to continue with once the queue runs out
+type AutoplayResolver = (player: Player, track: Track) => Track[] | null | undefined | Promise<Track[] | null | undefined>;
+
+const YOUTUBE_SOURCES = new Set(["youtube", "youtubemusic"]);
+
+// Minimum time between volume updates sent while fading
+const FADE_STEP_INTERVAL = 200;
+
+interface ActiveFade {
+    timer: NodeJS.Timeout;
+    resolve: () => void;
+}
+
 interface PlayerUpdatePacket {
     state?: PlayerState;
 }
@@ -35,11 +61,51 @@ interface EventPayload {
     guildId: string;
     type: string;
     reason?: string;
+    track?: any;
+}
+
+type TrackEndReason = "finished" | "loadFailed" | "stopped" | "replaced" | "cleanup";
+
+// Lavalink v4 sends camelCase reasons, v3 sent them as LOAD_FAILED and so on
+const TRACK_END_REASONS = new Map<string, TrackEndReason>([
+    ["finished", "finished"],
+    ["loadfailed", "loadFailed"],
+    ["stopped", "stopped"],
+    ["replaced", "replaced"],
+    ["cleanup", "cleanup"]
+]);
+
+type PlayerLifecycleState = "idle" | "connecting" | "connected" | "loading" | "playing" | "paused" | "ended" | "destroyed";
+
+// Allowed next states for each state; any state may move to "destroyed"
+const STATE_TRANSITIONS: Readonly<Record<PlayerLifecycleState, readonly PlayerLifecycleState[]>> = Object.freeze({
+    idle: ["connecting", "destroyed"],
+    connecting: ["connected", "loading", "idle", "destroyed"],
+    connected: ["loading", "connecting", "idle", "destroyed"],
+    loading: ["playing", "paused", "connected", "ended", "idle", "destroyed"],
+    playing: ["paused", "loading", "connected", "ended", "idle", "destroyed"],
+    paused: ["playing", "loading", "connected", "ended", "idle", "destroyed"],
+    ended: ["loading", "connected", "idle", "destroyed"],
+    destroyed: []
+});
+
+interface PlayerEvents {
+    playerUpdate: [packet: PlayerUpdatePacket];
+    event: [payload: EventPayload];
+    stateChange: [oldState: PlayerLifecycleState, newState: PlayerLifecycleState];
+    destroy: [];
+}
+
+interface Player {
+    on<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    once<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    off<K extends keyof PlayerEvents>(event: K, listener: (...args: PlayerEvents[K]) => void): this;
+    emit<K extends keyof PlayerEvents>(event: K, ...args: PlayerEvents[K]): boolean;
 }
 
 class Player extends EventEmitter {
     private aqua: any; // Replace `any` with the actual type of `aqua`
-    private nodes: any; // Replace `any` with the actual type of `nodes`
+    public nodes: any; // Replace `any` with the actual type of `nodes`
     public guildId: string | undefined;
     public textChannel: string | undefined;
     public voiceChannel: string | undefined;
@@ -53,14 +119,26 @@ class Player extends EventEmitter {
     public queue: Queue<any>
     public position: number;
     public current: Track | null;
-    public playing: boolean;
-    public paused: boolean;
-    public connected: boolean;
+    public state: PlayerLifecycleState;
     public timestamp: number;
     public ping: number;
     public nowPlayingMessage: any; // Replace `any` with the actual type
     public previousTracks: Track[];
+    public historySize: number;
+    public twentyFourSeven: boolean;
+    public inactivityTimeouts: InactivityTimeouts;
+    private inactivityTimers: Map<InactivityReason, NodeJS.Timeout>;
+    public trackRetries: number;
+    private failedAttempts: WeakMap<object, number>;
+    private replacedTrack: Track | null;
     public shouldDeleteMessage: boolean;
+    public autoplay: boolean;
+    public autoplayResolver: AutoplayResolver | null;
+    public fadeIn: number;
+    public fadeOut: number;
+    private outputVolume: number;
+    private activeFade: ActiveFade | null;
+    private fadeOutTimer: NodeJS.Timeout | null;
     private _boundPlayerUpdate: (packet: PlayerUpdatePacket) => void;
     private _boundHandleEvent: (payload: EventPayload) => void;
     #dataStore: WeakMap<any, any>; // Replace `any` with appropriate types
@@ -82,40 +160,389 @@ class Player extends EventEmitter {
         this.queue = new Queue();
         this.position = 0;
         this.current = null;
-        this.playing = false;
-        this.paused = false;
-        this.connected = false;
+        this.state = "idle";
         this.timestamp = 0;
         this.ping = 0;
         this.nowPlayingMessage = null;
         this.previousTracks = [];
+        this.historySize = Math.max(0, options.historySize ?? aqua.options?.historySize ?? 50);
+        this.twentyFourSeven = options.twentyFourSeven ?? false;
+        this.inactivityTimeouts = { ...aqua.options?.inactivityTimeouts, ...options.inactivityTimeouts };
+        this.inactivityTimers = new Map();
+        this.trackRetries = Math.max(0, options.trackRetries ?? aqua.options?.trackRetries ?? 1);
+        this.failedAttempts = new WeakMap();
+        this.replacedTrack = null;
         this.shouldDeleteMessage = options.shouldDeleteMessage ?? true;
+        this.autoplay = options.autoplay ?? false;
+        this.autoplayResolver = aqua.options?.autoplayResolver ?? null;
+        this.fadeIn = options.fadeIn ?? aqua.options?.fadeIn ?? 0;
+        this.fadeOut = options.fadeOut ?? aqua.options?.fadeOut ?? 0;
+        this.outputVolume = this.volume;
+        this.activeFade = null;
+        this.fadeOutTimer = null;
         this._boundPlayerUpdate = this.onPlayerUpdate.bind(this);
         this._boundHandleEvent = this.handleEvent.bind(this);
         this.on("playerUpdate", this._boundPlayerUpdate);
         this.on("event", this._boundHandleEvent);
     }
 
+    get playing(): boolean {
+        return this.state === "loading" || this.state === "playing" || this.state === "paused";
+    }
+
+    get paused(): boolean {
+        return this.state === "paused";
+    }
+
+    get connected(): boolean {
+        return this.state !== "idle" && this.state !== "connecting" && this.state !== "destroyed";
+    }
+
+    /**
+     * Moves the player to a new lifecycle state and emits `playerStateChange`.
+     * Transitions that are not allowed from the current state are ignored.
+     *
+     * @param {string} next - The state to move to.
+     * @param {boolean} [force=false] - Skip transition validation, used when rebuilding a player.
+     * @returns {boolean} Whether the state changed.
+     */
+    setState(next: PlayerLifecycleState, force = false): boolean {
+        const previous = this.state;
+        if (previous === next) return false;
+        if (!force && !STATE_TRANSITIONS[previous].includes(next)) {
+            this.aqua.emit("debug", this.guildId, `Ignored invalid state transition: ${previous} -> ${next}`);
+            return false;
+        }
+        this.state = next;
+        this.emit("stateChange", previous, next);
+        this.aqua.emit("playerStateChange", this, previous, next);
+        if (next !== "destroyed") this.aqua.schedulePlayerSave(this);
+        return true;
+    }
+
     onPlayerUpdate(packet: PlayerUpdatePacket): void {
         if (!packet?.state) return;
         const { state } = packet;
         const { connected, position, ping, time } = state;
-        this.connected = connected;
+        if (connected && this.state === "connecting") this.setState("connected");
         this.position = position;
         this.ping = ping;
         this.timestamp = time;
+        this.scheduleFadeOut();
         this.aqua.emit("playerUpdate", this, packet);
     }
 
+    /**
+     * Live estimate of the playback position in milliseconds, advanced from the last
+     * known position by wall-clock time and the timescale filter, and clamped to the track length.
+     */
+    get currentPosition(): number {
+        if (!this.current) return 0;
+        let position = this.position;
+        if (this.state === "playing" && this.timestamp) {
+            position += Math.max(0, Date.now() - this.timestamp) * this.playbackRate;
+        }
+        position = Math.max(0, position);
+        const { length, isStream } = this.current.info ?? {};
+        return length && !isStream ? Math.min(position, length) : position;
+    }
+
+    // How many milliseconds of track play per millisecond of wall-clock time
+    private get playbackRate(): number {
+        const { speed = 1, rate = 1 } = this.filters.timescale ?? {};
+        return speed * rate;
+    }
+
+    /**
+     * Serializes the player so it can be rebuilt with `Aqua.restorePlayer` after a restart.
+     *
+     * @returns {PlayerSnapshot} A JSON-safe snapshot of the player.
+     */
+    toJSON(): PlayerSnapshot {
+        const serialize = (track: any): TrackSnapshot | null => track?.track
+            ? { encoded: track.track, info: track.info, requester: track.requester ?? null }
+            : null;
+        return {
+            guildId: this.guildId,
+            textChannel: this.textChannel ?? null,
+            voiceChannel: this.connection.voiceChannel ?? this.voiceChannel ?? null,
+            node: this.nodes?.name ?? null,
+            deaf: this.deaf,
+            mute: this.mute,
+            volume: this.volume,
+            loop: this.loop,
+            autoplay: this.autoplay,
+            paused: this.paused,
+            position: this.currentPosition,
+            current: serialize(this.current),
+            queue: this.queue.map(serialize).filter(Boolean),
+            history: this.previousTracks.map(serialize).filter(Boolean),
+            filters: this.filters.toJSON(),
+            savedAt: Date.now()
+        };
+    }
+
+    /**
+     * Applies a snapshot to a freshly created player. Once the voice connection is up,
+     * the current track is started again at its saved position.
+     *
+     * @param {PlayerSnapshot} snapshot - The saved player state.
+     * @param {Object} tracks - The snapshot's tracks, rebuilt as `Track` instances.
+     * @returns {Player} The player instance.
+     */
+    restore(snapshot: PlayerSnapshot, tracks: { current: any; queue: any[]; history: any[] }): this {
+        this.textChannel = snapshot.textChannel ?? this.textChannel;
+        this.volume = snapshot.volume ?? this.volume;
+        this.outputVolume = this.volume;
+        this.loop = snapshot.loop ?? this.loop;
+        this.autoplay = snapshot.autoplay ?? this.autoplay;
+        this.queue.push(...tracks.queue);
+        this.previousTracks.push(...tracks.history.slice(0, this.historySize));
+        Object.assign(this.filters, snapshot.filters);
+        const { current } = tracks;
+        if (!current) return this;
+
+        const resume = () => {
+            this.current = current;
+            this.position = snapshot.position ?? 0;
+            this.timestamp = Date.now();
+            this.setState("loading");
+            if (snapshot.paused) this.setState("paused");
+            this.updatePlayer({
+                track: { encoded: current.track },
+                position: this.position,
+                paused: snapshot.paused ?? false,
+                volume: this.volume,
+                filters: this.filters.toJSON()
+            }).catch(error => {
+                this.aqua.emit("debug", this.guildId, `Failed to resume restored track: ${error.message}`);
+            });
+        };
+        if (this.connected) {
+            resume();
+            return this;
+        }
+        // Only the connection that is being set up right now may resume the snapshot
+        const onStateChange = (_: PlayerLifecycleState, next: PlayerLifecycleState) => {
+            this.off("stateChange", onStateChange);
+            if (next === "connected") resume();
+        };
+        this.on("stateChange", onStateChange);
+        return this;
+    }
+
+    /**
+     * Rebuilds the player from the state Lavalink kept for a resumed session.
+     *
+     * @param {Node} node - The node that owns the resumed session.
+     * @param {Object} data - The player object returned by `GET /sessions/{id}/players`.
+     * @param {Track|null} track - The rebuilt current track, if any.
+     * @returns {Player} The player instance.
+     */
+    rehydrate(node: any, data: any, track: any): this {
+        const { state = {}, filters = {} } = data;
+        this.nodes = node;
+        this.current = track;
+        this.volume = data.volume ?? this.volume;
+        this.position = state.position ?? 0;
+        this.timestamp = state.time ?? 0;
+        this.ping = state.ping ?? 0;
+        Object.assign(this.filters, filters);
+        this.connection.restoreVoice(data.voice);
+        if (track) {
+            this.setState(data.paused ? "paused" : "playing", true);
+        } else {
+            this.setState(state.connected ? "connected" : "connecting", true);
+        }
+        return this;
+    }
+
+    /**
+     * Moves the player to another node, replaying the current track from its last known position.
+     * The player is removed from the old node first when it can still be reached, so it stops playing there.
+     *
+     * @param {Node} node - The node to move the player to.
+     * @returns {Promise<Player>} The player instance.
+     */
+    async migrate(node: any): Promise<this> {
+        const previous = this.nodes;
+        if (previous && previous !== node && previous.connected) {
+            try {
+                await previous.rest.destroyPlayer(this.guildId);
+            } catch (error) {
+                // The old node may be the reason for the move; carry on without it
+                this.aqua.emit("debug", this.guildId, `Failed to destroy player on ${previous.name}: ${error.message}`);
+            }
+        }
+        this.nodes = node;
+        await this.updatePlayer({
+            voice: this.connection.voiceData ?? undefined,
+            track: this.current?.track ? { encoded: this.current.track } : undefined,
+            position: this.position,
+            volume: this.volume,
+            paused: this.paused,
+            filters: this.filters.toJSON()
+        });
+        return this;
+    }
+
+    /**
+     * Moves the player to another node by hand, for example off a degraded one.
+     * The player is destroyed on the old node's session and recreated on the new one
+     * with the same voice connection, track, position, filters, volume and pause state.
+     *
+     * @param {Node|string} target - The node, or its name, to move to.
+     * @param {number} [timeout=10000] - How long to wait for the new node to confirm the player.
+     * @throws {Error} If the node is unknown or not connected, or there is no voice connection.
+     * @returns {Promise<Player>} Resolves once the new node sends a `playerUpdate` for the player.
+     */
+    async moveNode(target: any, timeout = 10000): Promise<this> {
+        const node = typeof target === "string" ? this.aqua.nodes.get(target) : target;
+        if (!node) throw new Error(`Node '${target}' does not exist.`);
+        if (node === this.nodes) return this;
+        if (!node.connected) throw new Error(`Node '${node.name}' is not connected.`);
+        if (!this.connection.voiceData) throw new Error("Player has no voice connection to move.");
+
+        const previous = this.nodes;
+        this.position = this.currentPosition;
+        this.timestamp = Date.now();
+
+        let onUpdate: () => void;
+        let timer: NodeJS.Timeout;
+        const confirmed = new Promise<void>((resolve, reject) => {
+            onUpdate = () => resolve();
+            timer = setTimeout(() => reject(new Error(`Node '${node.name}' did not confirm the player in time.`)), timeout);
+            this.once("playerUpdate", onUpdate);
+        });
+        // Handled by the await below; avoids an unhandled rejection if the update request is slow
+        confirmed.catch(() => undefined);
+        try {
+            await this.migrate(node);
+            await confirmed;
+        } finally {
+            clearTimeout(timer);
+            this.off("playerUpdate", onUpdate);
+        }
+        this.aqua.emit("playerMigrate", this, previous, node);
+        this.aqua.checkDrained(previous);
+        return this;
+    }
+
+    /**
+     * Fetches the lyrics of the current track through the LavaLyrics plugin.
+     *
+     * @param {boolean} [skipTrackSource=false] - Skip lyrics provided by the track's own source.
+     * @throws {Error} If the node does not have the LavaLyrics plugin.
+     * @returns {Promise<Lyrics|null>} The lyrics, or null if nothing is playing or none were found.
+     */
+    async getLyrics(skipTrackSource = false): Promise<Lyrics | null> {
+        this.ensureLyricsSupport();
+        if (!this.current?.track) return null;
+        return this.nodes.rest.getCurrentTrackLyrics(this.guildId, skipTrackSource);
+    }
+
+    /**
+     * Subscribes to live lyrics, re-emitted on Aqua as `lyricsFound`, `lyricsNotFound` and `lyricsLine`.
+     *
+     * @param {boolean} [skipTrackSource=false] - Skip lyrics provided by the track's own source.
+     * @throws {Error} If the node does not have the LavaLyrics plugin.
+     */
+    async subscribeLyrics(skipTrackSource = false): Promise<void> {
+        this.ensureLyricsSupport();
+        await this.nodes.rest.subscribeLyrics(this.guildId, skipTrackSource);
+    }
+
+    async unsubscribeLyrics(): Promise<void> {
+        this.ensureLyricsSupport();
+        await this.nodes.rest.unsubscribeLyrics(this.guildId);
+    }
+
+    /**
+     * Finds the synced lyrics line being sung at a position.
+     *
+     * @param {Lyrics} lyrics - Lyrics returned by `getLyrics`.
+     * @param {number} [position] - Position in milliseconds, defaults to the player's position.
+     * @returns {Object|null} The line and its index, or null before the first line or for unsynced lyrics.
+     */
+    getLyricsLine(lyrics: Lyrics | null, position?: number): { index: number; line: LyricsLine } | null {
+        const lines = lyrics?.lines;
+        if (!lines?.length) return null;
+        const target = position ?? this.currentPosition;
+        // Lines are ordered by timestamp; find the last one that has started
+        let low = 0;
+        let high = lines.length - 1;
+        let index = -1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            if (lines[mid].timestamp <= target) {
+                index = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return index === -1 ? null : { index, line: lines[index] };
+    }
+
+    private ensureLyricsSupport(): void {
+        if (!this.nodes.supports("lavalyrics")) {
+            throw new Error(`Node '${this.nodes.name}' does not have the LavaLyrics plugin.`);
+        }
+    }
+
     get previous(): Track | null {
         return this.previousTracks.length ? this.previousTracks[0] : null;
     }
 
+    // Played tracks, most recent first
+    get history(): readonly Track[] {
+        return this.previousTracks;
+    }
+
     addToPreviousTrack(track: Track): void {
-        if (this.previousTracks.length >= 50) {
-            this.previousTracks.pop();
-        }
+        if (!track || this.historySize === 0) return;
+        // A track repeating under loop "track" is only recorded once
+        if (this.previousTracks[0] === track) return;
         this.previousTracks.unshift(track);
+        if (this.previousTracks.length > this.historySize) {
+            this.previousTracks.length = this.historySize;
+        }
+    }
+
+    /**
+     * Replays the previous track and puts the current one back at the front of the queue.
+     *
+     * @throws {Error} If there is no previous track.
+     * @returns {Player} The player instance.
+     */
+    back(): this {
+        return this.jumpToHistory(0);
+    }
+
+    /**
+     * Plays a track from the history. Tracks played after it, and the current track,
+     * are put back at the front of the queue in their original order.
+     *
+     * @param {number} index - Position in `history`, 0 being the most recent track.
+     * @throws {RangeError} If there is no track at the index.
+     * @returns {Player} The player instance.
+     */
+    jumpToHistory(index: number): this {
+        if (!Number.isInteger(index) || index < 0 || index >= this.previousTracks.length) {
+            throw new RangeError(index === 0 ? "There is no previous track." : `No track at history index ${index}.`);
+        }
+        const tracks = this.previousTracks.splice(0, index + 1);
+        // Under loop "queue" finished tracks were also appended to the queue; take them back off the end
+        if (this.loop === "queue") {
+            for (const track of tracks) {
+                if (this.queue.last === track) this.queue.pop();
+            }
+        }
+        const target = tracks.pop();
+        if (this.current && this.playing) this.queue.unshift(this.current);
+        this.queue.unshift(...tracks.reverse());
+        this.queue.unshift(target);
+        return this.play();
     }
 
     /**
@@ -125,14 +552,24 @@ class Player extends EventEmitter {
      * @returns {Promise<Player>} The player instance.
      */
     play(): this {
-        if (!this.connected) throw new Error("Player must be connected first.");
+        if (this.state === "idle" || this.state === "destroyed") throw new Error("Player must be connected first.");
         if (!this.queue.length) return this;
         const track = this.queue.shift();
+        // Keep the outgoing track so its "replaced" end event can report it
+        if (this.current && this.playing) this.replacedTrack = this.current;
         this.current = track.track ? track : track.resolve(this.aqua);
-        this.playing = true;
+        this.setState("loading");
         this.position = 0;
+        this.cancelFade();
         this.aqua.emit("debug", this.guildId, `Playing track: ${this.current?.track}`);
-        this.updatePlayer({ track: { encoded: this.current?.track } });
+        // Start silent when fading in, and undo any fade-out left over from the previous track
+        const volume = this.fadeIn > 0 ? 0 : this.volume;
+        const data: Record<string, any> = { track: { encoded: this.current?.track } };
+        if (volume !== this.outputVolume) {
+            this.outputVolume = volume;
+            data.volume = volume;
+        }
+        this.dispatchUpdate(data);
         return this;
     }
 
@@ -144,11 +581,12 @@ class Player extends EventEmitter {
      * @param {string} options.voiceChannel - The ID of the voice channel to connect to.
      * @param {boolean} [options.deaf=true] - Whether the player should be self-deafened.
      * @param {boolean} [options.mute=false] - Whether the player should be self-muted.
-     * @throws {Error} If the player is already connected.
+     * @throws {Error} If the player is destroyed or already connected to the channel.
      * @returns {Promise<Player>} The player instance.
      */
     connect(options: { guildId: string; voiceChannel: string; deaf?: boolean; mute?: boolean; }): this {
-        if (this.connected) throw new Error("Player is already connected.");
+        if (this.state === "destroyed") throw new Error("Player has been destroyed.");
+        if (this.connected && this.connection.voiceChannel === options.voiceChannel) throw new Error("Player is already connected.");
         const {
             guildId,
             voiceChannel,
@@ -161,23 +599,25 @@ class Player extends EventEmitter {
             self_deaf: deaf,
             self_mute: mute
         });
-        this.connected = true;
+        if (!this.connected) this.setState("connecting");
         this.aqua.emit("debug", this.guildId, `Player connected to voice channel: ${voiceChannel}.`);
         return this;
     }
 
     destroy(): this {
-        if (!this.connected) return this;
-        this.updatePlayer({ track: { encoded: null } });
+        if (this.state === "destroyed") return this;
+        this.dispatchUpdate({ track: { encoded: null } });
         this.queue.clear();
         this.current = null;
         this.previousTracks.length = 0;
-        this.playing = false;
         this.position = 0;
+        this.cancelFade();
+        this.cancelInactivityTimers();
         this.send({ guild_id: this.guildId, channel_id: null });
-        this.connected = false;
+        this.setState("destroyed");
         this.removeListener("playerUpdate", this._boundPlayerUpdate);
         this.removeListener("event", this._boundHandleEvent);
+        this.emit("destroy");
         return this;
     }
 
@@ -188,8 +628,19 @@ class Player extends EventEmitter {
      * @returns {Promise<Player>} The player instance.
      */
     pause(paused: boolean): this {
-        this.paused = paused;
-        this.updatePlayer({ paused });
+        // Freeze the estimate where playback stopped
+        this.position = this.currentPosition;
+        this.timestamp = Date.now();
+        if (paused && (this.state === "playing" || this.state === "loading")) this.setState("paused");
+        if (!paused && this.state === "paused") this.setState("playing");
+        this.dispatchUpdate({ paused });
+        if (paused) {
+            this.clearFadeOutTimer();
+            this.startInactivityTimer("paused");
+        } else {
+            this.cancelInactivityTimers("paused");
+            this.scheduleFadeOut();
+        }
         return this;
     }
 
@@ -204,14 +655,24 @@ class Player extends EventEmitter {
         if (position < 0) throw new Error("Seek position cannot be negative.");
         if (!this.playing) return this;
         this.position = position;
-        this.updatePlayer({ position });
+        this.timestamp = Date.now();
+        const restoreVolume = this.activeFade !== null || this.fadeOutTimer !== null || this.outputVolume !== this.volume;
+        this.cancelFade();
+        if (restoreVolume && this.outputVolume !== this.volume) {
+            this.outputVolume = this.volume;
+            this.dispatchUpdate({ position, volume: this.volume });
+        } else {
+            this.dispatchUpdate({ position });
+        }
+        this.scheduleFadeOut();
         return this;
     }
 
     stop(): this {
         if (!this.playing) return this;
-        this.updatePlayer({ track: { encoded: null } });
-        this.playing = false;
+        this.cancelFade();
+        this.dispatchUpdate({ track: { encoded: null } });
+        this.setState("connected");
         this.position = 0;
         return this;
     }
@@ -225,11 +686,102 @@ class Player extends EventEmitter {
      */
     setVolume(volume: number): this {
         if (volume < 0 || volume > 200) throw new Error("Volume must be between 0 and 200.");
+        this.cancelFade();
         this.volume = volume;
-        this.updatePlayer({ volume });
+        this.outputVolume = volume;
+        this.dispatchUpdate({ volume });
+        return this;
+    }
+
+    /**
+     * Gradually changes the volume over the given duration.
+     *
+     * @param {number} volume - The volume to fade to, between 0 and 200.
+     * @param {number} duration - How long the fade should take, in milliseconds.
+     * @param {boolean} [persist=true] - Whether the target becomes the player's volume, or only the output is ramped.
+     * @throws {Error} If the volume is out of range.
+     * @returns {Promise<Player>} Resolves when the fade completes or is cancelled.
+     */
+    fadeTo(volume: number, duration: number, persist = true): Promise<this> {
+        if (volume < 0 || volume > 200) throw new Error("Volume must be between 0 and 200.");
+        this.cancelFade();
+        if (persist) this.volume = volume;
+        const from = this.outputVolume;
+        const steps = Math.floor(duration / FADE_STEP_INTERVAL);
+        if (steps < 1 || from === volume) {
+            this.applyVolume(volume);
+            return Promise.resolve(this);
+        }
+        return new Promise(resolve => {
+            let step = 0;
+            const timer = setInterval(() => {
+                step++;
+                this.applyVolume(Math.round(from + (volume - from) * (step / steps)));
+                if (step >= steps) this.cancelFade();
+            }, duration / steps);
+            this.activeFade = { timer, resolve: () => resolve(this) };
+        });
+    }
+
+    /**
+     * Sets the automatic fade-in on track start and fade-out before a track ends.
+     *
+     * @param {Object} options - Fade durations in milliseconds, 0 to disable.
+     * @returns {Player} The player instance.
+     */
+    setAutoFade(options: { fadeIn?: number; fadeOut?: number }): this {
+        this.fadeIn = Math.max(0, options.fadeIn ?? this.fadeIn);
+        this.fadeOut = Math.max(0, options.fadeOut ?? this.fadeOut);
+        this.scheduleFadeOut();
         return this;
     }
 
+    /**
+     * Stops any running fade and pending fade-out, leaving the volume where it is.
+     */
+    cancelFade(): void {
+        this.clearFadeOutTimer();
+        if (!this.activeFade) return;
+        const { timer, resolve } = this.activeFade;
+        this.activeFade = null;
+        clearInterval(timer);
+        resolve();
+    }
+
+    private applyVolume(volume: number): void {
+        if (volume === this.outputVolume) return;
+        this.outputVolume = volume;
+        this.updatePlayer({ volume }).catch(error => {
+            this.aqua.emit("debug", this.guildId, `Failed to update volume during fade: ${error.message}`);
+        });
+    }
+
+    private clearFadeOutTimer(): void {
+        if (!this.fadeOutTimer) return;
+        clearTimeout(this.fadeOutTimer);
+        this.fadeOutTimer = null;
+    }
+
+    // Times the fade-out from the track length and the last known position
+    private scheduleFadeOut(): void {
+        this.clearFadeOutTimer();
+        const info = this.current?.info;
+        if (!this.fadeOut || this.state !== "playing" || !info?.length || info.isStream) return;
+        if (this.activeFade) return;
+        // Wall-clock time left, which the timescale filter stretches or shrinks
+        const remaining = (info.length - this.currentPosition) / this.playbackRate;
+        if (remaining <= 0) return;
+        const startFade = () => {
+            this.fadeOutTimer = null;
+            this.fadeTo(0, Math.min(this.fadeOut, (info.length - this.currentPosition) / this.playbackRate), false);
+        };
+        if (remaining <= this.fadeOut) {
+            startFade();
+            return;
+        }
+        this.fadeOutTimer = setTimeout(startFade, remaining - this.fadeOut);
+    }
+
     /**
      * Sets the loop mode of the player.
      *
@@ -241,10 +793,67 @@ class Player extends EventEmitter {
         const validModes = new Set(["none", "track", "queue"]);
         if (!validModes.has(mode)) throw new Error("Loop mode must be 'none', 'track', or 'queue'.");
         this.loop = mode;
-        this.updatePlayer({ loop: mode });
+        this.dispatchUpdate({ loop: mode });
+        return this;
+    }
+
+    /**
+     * Enables or disables autoplay. When enabled, a related track is queued once the queue runs out.
+     *
+     * @param {boolean} enabled - Whether autoplay should be enabled.
+     * @param {Function} [resolver] - Custom recommendation source, replacing the built-in one.
+     * @returns {Player} The player instance.
+     */
+    setAutoplay(enabled: boolean, resolver?: AutoplayResolver): this {
+        this.autoplay = enabled;
+        if (resolver) this.autoplayResolver = resolver;
+        return this;
+    }
+
+    /**
+     * Keeps the player connected around the clock, ignoring every inactivity timer.
+     *
+     * @param {boolean} enabled - Whether 24/7 mode should be enabled.
+     * @returns {Player} The player instance.
+     */
+    setTwentyFourSeven(enabled: boolean): this {
+        this.twentyFourSeven = enabled;
+        if (enabled) this.cancelInactivityTimers();
         return this;
     }
 
+    /**
+     * Starts the inactivity timer for a reason, destroying the player once it runs out.
+     *
+     * @param {string} reason - What made the player inactive: "queueEnd", "paused" or "alone".
+     * @returns {boolean} Whether a timer was started.
+     */
+    startInactivityTimer(reason: InactivityReason): boolean {
+        const timeout = this.inactivityTimeouts[reason];
+        if (this.twentyFourSeven || !timeout || this.state === "destroyed") return false;
+        clearTimeout(this.inactivityTimers.get(reason));
+        this.inactivityTimers.set(reason, setTimeout(() => {
+            this.inactivityTimers.delete(reason);
+            this.aqua.emit("playerInactive", this, reason);
+            this.aqua.emit("debug", this.guildId, `Destroying player after inactivity: ${reason}`);
+            this.destroy();
+        }, timeout));
+        return true;
+    }
+
+    /**
+     * Cancels pending inactivity timers.
+     *
+     * @param {...string} [reasons] - Only cancel the timers for these reasons; all of them when omitted.
+     */
+    cancelInactivityTimers(...reasons: InactivityReason[]): void {
+        for (const [key, timer] of this.inactivityTimers) {
+            if (reasons.length && !reasons.includes(key)) continue;
+            clearTimeout(timer);
+            this.inactivityTimers.delete(key);
+        }
+    }
+
     /**
      * Sets the text channel for the player.
      *
@@ -252,7 +861,7 @@ class Player extends EventEmitter {
      * @returns {Promise<Player>} The player instance.
      */
     setTextChannel(channel: string): this {
-        this.updatePlayer({ text_channel: channel });
+        this.dispatchUpdate({ text_channel: channel });
         return this;
     }
 
@@ -280,8 +889,8 @@ class Player extends EventEmitter {
     }
 
     disconnect(): void {
-        this.updatePlayer({ track: { encoded: null } });
-        this.connected = false;
+        this.dispatchUpdate({ track: { encoded: null } });
+        this.setState("idle");
         this.send({ guild_id: this.guildId, channel_id: null });
         this.aqua.emit("debug", this.guildId, "Player disconnected.");
     }
@@ -303,9 +912,19 @@ class Player extends EventEmitter {
         return this.seek(0);
     }
 
-    skip(): this | undefined {
-        this.stop();
-        return this.playing ? this.play() : undefined;
+    /**
+     * Skips to the next track in the queue, or stops playback if the queue is empty.
+     *
+     * @returns {Player} The player instance.
+     */
+    skip(): this {
+        const skipped = this.current;
+        if (skipped && this.playing) {
+            this.addToPreviousTrack(skipped);
+            if (this.loop === "queue") this.queue.push(skipped);
+        }
+        // Playing over the current track ends it as "replaced", which never advances the queue again
+        return this.queue.isEmpty() ? this.stop() : this.play();
     }
 
     static EVENT_HANDLERS = new Map<string, string>([
@@ -317,31 +936,91 @@ class Player extends EventEmitter {
         ["WebSocketClosedEvent", "socketClosed"]
     ]);
 
+    // Handlers for plugin events, keyed by Lavalink event type
+    static PLUGIN_EVENT_HANDLERS = new Map<string, PlayerEventHandler>(
+        Object.entries(PLUGIN_EVENTS).map(([type, event]): [string, PlayerEventHandler] => [
+            type,
+            (player, track, payload) => player.aqua.emit(event, player, track, payload)
+        ])
+    );
+
+    /**
+     * Registers a handler for a Lavalink event type, such as one sent by a custom plugin.
+     * Replaces any handler already registered for the type.
+     *
+     * @param {string} type - The event type, as sent in the payload's `type` field.
+     * @param {Function} handler - Called with the player, its current track and the raw payload.
+     * @throws {Error} If the type is one of the core track events.
+     */
+    static registerEventHandler(type: string, handler: PlayerEventHandler): void {
+        if (Player.EVENT_HANDLERS.has(type)) throw new Error(`Cannot override core event handler: ${type}`);
+        if (typeof handler !== "function") throw new TypeError("Event handler must be a function.");
+        Player.PLUGIN_EVENT_HANDLERS.set(type, handler);
+    }
+
+    /**
+     * Removes the handler registered for a Lavalink event type.
+     *
+     * @param {string} type - The event type.
+     * @returns {boolean} Whether a handler was removed.
+     */
+    static unregisterEventHandler(type: string): boolean {
+        return Player.PLUGIN_EVENT_HANDLERS.delete(type);
+    }
+
     handleEvent = (payload: EventPayload): void => {
         const player = this.aqua.players.get(payload.guildId);
         if (!player) return;
         const track = player.current;
         const handlerName = Player.EVENT_HANDLERS.get(payload.type);
         if (handlerName) {
-            this[handlerName](player, track, payload);
-        } else {
-            this.handleUnknownEvent(player, payload);
+            Promise.resolve(this[handlerName](player, track, payload)).catch(error => {
+                this.aqua.emit("nodeError", this.nodes, new Error(`Handler for '${payload.type}' failed: ${error.message}`));
+            });
+            return;
+        }
+        const pluginHandler = Player.PLUGIN_EVENT_HANDLERS.get(payload.type);
+        if (!pluginHandler) {
+            this.handleUnknownEvent(payload, track);
+            return;
+        }
+        try {
+            pluginHandler(player, track, payload as unknown as PluginEventPayload);
+        } catch (error) {
+            this.aqua.emit("nodeError", this.nodes, new Error(`Handler for '${payload.type}' failed: ${error.message}`));
         }
     }
 
     trackStart(player: Player, track: Track): void {
-        this.playing = true;
-        this.paused = false;
+        // A track started paused, such as a restored one, stays paused
+        if (this.state !== "paused") this.setState("playing");
+        // Playing music does not mean anyone is listening, so the "alone" timer keeps running
+        this.cancelInactivityTimers("queueEnd", "paused");
+        this.timestamp = Date.now();
+        if (this.fadeIn > 0) {
+            this.fadeTo(this.volume, this.fadeIn, false).then(() => this.scheduleFadeOut());
+        } else {
+            this.scheduleFadeOut();
+        }
         this.aqua.emit("trackStart", player, track);
     }
 
     trackChange(player: Player, track: Track): void {
-        this.playing = true;
-        this.paused = false;
+        this.setState("playing");
         this.aqua.emit("trackChange", player, track);
     }
 
-    async trackEnd(player: Player, track: Track, payload: EventPayload): Promise<void> {
+    /**
+     * Handles the end of a track following Lavalink's end reasons: only "finished" and
+     * "loadFailed" may start the next track, while "stopped", "replaced" and "cleanup" never do.
+     */
+    async trackEnd(player: Player, current: Track, payload: EventPayload): Promise<void> {
+        const reason = TRACK_END_REASONS.get(String(payload.reason ?? "").replace(/_/g, "").toLowerCase()) ?? "finished";
+        const track = this.resolveEndedTrack(current, payload);
+        this.aqua.emit("trackEnd", player, track, reason);
+        // The replacing track is already current and will get its own start and end events
+        if (reason === "replaced") return;
+
         if (this.shouldDeleteMessage && this.nowPlayingMessage) {
             try {
                 await this.nowPlayingMessage.delete();
@@ -351,43 +1030,113 @@ class Player extends EventEmitter {
                 this.nowPlayingMessage = null;
             }
         }
-        const reason = payload.reason?.replace("_", "").toLowerCase();
-        if (reason === "loadfailed" || reason === "cleanup") {
-            if (player.queue.isEmpty()) {
-                this.aqua.emit("queueEnd", player);
-                return;
-            }
-             player.play();
-        }
-        switch (this.loop) {
-            case "track":
-                this.aqua.emit("trackRepeat", player, track);
-                player.queue.unshift(track);
-                break;
-            case "queue":
-                this.aqua.emit("queueRepeat", player, track);
-                player.queue.push(track);
-                break;
-        }
-        if (player.queue.isEmpty()) {
-            this.playing = false;
+        // Either await above gives the player time to be destroyed
+        if (this.isDestroyed()) return;
+        if (reason === "finished" || reason === "stopped") this.addToPreviousTrack(track);
+        if (reason === "stopped" || reason === "cleanup") return;
+
+        if (reason === "loadFailed") {
+            if (this.retryTrack(track)) return;
+        } else if (this.loop === "track") {
+            this.aqua.emit("trackRepeat", player, track);
+            this.queue.unshift(track);
+        } else if (this.loop === "queue") {
+            this.aqua.emit("queueRepeat", player, track);
+            this.queue.push(track);
+        }
+
+        const queuedAutoplay = this.queue.isEmpty() && await this.queueAutoplayTrack(track);
+        if (this.isDestroyed()) return;
+        if (this.queue.isEmpty() && !queuedAutoplay) {
+            this.setState("ended");
             this.aqua.emit("queueEnd", player);
-             this.cleanup();
+            if (!this.twentyFourSeven && !this.startInactivityTimer("queueEnd")) this.cleanup();
+            return;
+        }
+        this.play();
+    }
+
+    // A method rather than a state check so TypeScript does not narrow the state across awaits
+    private isDestroyed(): boolean {
+        return this.state === "destroyed";
+    }
+
+    // The current track, unless a newer one already replaced it
+    private resolveEndedTrack(current: Track | null, payload: EventPayload): Track | null {
+        const encoded = payload.track?.encoded;
+        if (!encoded || current?.track === encoded) return current;
+        if (this.replacedTrack?.track === encoded) {
+            const track = this.replacedTrack;
+            this.replacedTrack = null;
+            return track;
+        }
+        return payload.track;
+    }
+
+    // Plays a track that failed to load again, until it runs out of retries
+    private retryTrack(track: Track | null): boolean {
+        if (!track?.track) return false;
+        const attempts = this.failedAttempts.get(track) ?? 0;
+        if (attempts >= this.trackRetries) return false;
+        this.failedAttempts.set(track, attempts + 1);
+        this.aqua.emit("debug", this.guildId, `Retrying track that failed to load (${attempts + 1}/${this.trackRetries}): ${track.info?.title}`);
+        this.queue.unshift(track);
+        this.play();
+        return true;
+    }
+
+    /**
+     * Queues a track related to the one that just ended, skipping recently played tracks.
+     *
+     * @param {Track} track - The track that just ended.
+     * @returns {Promise<boolean>} Whether a track was queued.
+     */
+    async queueAutoplayTrack(track: Track): Promise<boolean> {
+        if (!this.autoplay || !track?.info) return false;
+        try {
+            const candidates = this.autoplayResolver
+                ? await this.autoplayResolver(this, track)
+                : await this.fetchRelatedTracks(track);
+            const next = (candidates ?? []).find(candidate => !this.wasRecentlyPlayed(candidate, track));
+            if (!next) {
+                this.aqua.emit("debug", this.guildId, "Autoplay found no related tracks.");
+                return false;
+            }
+            this.queue.push(next);
+            this.aqua.emit("debug", this.guildId, `Autoplay queued: ${next.info?.title}`);
+            return true;
+        } catch (error) {
+            this.aqua.emit("debug", this.guildId, `Autoplay failed: ${error.message}`);
+            return false;
         }
-         player.play();
     }
 
+    private async fetchRelatedTracks(track: Track): Promise<Track[]> {
+        const { identifier, author, title, sourceName } = track.info;
+        const query = YOUTUBE_SOURCES.has(sourceName)
+            ? `https://www.youtube.com/watch?v=${identifier}&list=RD${identifier}`
+            : `${author} ${title}`;
+        const result = await this.aqua.resolve({ query, requester: track.requester });
+        return result?.tracks ?? [];
+    }
+
+    private wasRecentlyPlayed(candidate: Track, track: Track): boolean {
+        const matches = (other: Track) => other?.info && candidate.info &&
+            (other.info.identifier === candidate.info.identifier || (!!other.info.uri && other.info.uri === candidate.info.uri));
+        return matches(track) || this.previousTracks.some(matches);
+    }
+
+    // Lavalink follows an exception with a "loadFailed" TrackEndEvent, which moves the queue on
     trackError(player: Player, track: Track, payload: EventPayload): void {
         this.aqua.emit("trackError", player, track, payload);
-         this.stop();
     }
 
     trackStuck(player: Player, track: Track, payload: EventPayload): void {
         this.aqua.emit("trackStuck", player, track, payload);
-         this.stop();
+        this.skip();
     }
 
-    socketClosed(player: Player, payload: EventPayload): void {
+    socketClosed(player: Player, track: Track, payload: EventPayload): void {
         if (payload?.code === 4015 || payload?.code === 4009) {
             this.send({
                 guild_id: payload.guildId,
@@ -419,15 +1168,26 @@ class Player extends EventEmitter {
     }
 
     async updatePlayer(data: any): Promise<void> { // Replace `any` with appropriate types
+        this.aqua.schedulePlayerSave(this);
+        // A node that went away cannot take the update; its players are migrated or destroyed separately
+        if (!this.nodes?.connected) {
+            this.aqua.emit("debug", this.guildId, "Skipping player update, node is not connected.");
+            return;
+        }
         return this.nodes.rest.updatePlayer({
             guildId: this.guildId,
             data,
         });
     }
 
+    // Sends an update nobody awaits, reporting failures instead of leaving the rejection unhandled
+    private dispatchUpdate(data: any): void {
+        this.updatePlayer(data).catch(error => this.aqua.emit("apiError", "updatePlayer", error));
+    }
+
     handleUnknownEvent(payload: EventPayload, track: any): void {
         const error = new Error(`Node encountered an unknown event: '${payload.type}'`);
-        this.aqua.emit("nodeError", this, error);
+        this.aqua.emit("nodeError", this.nodes, error);
     }
 
     async cleanup(): Promise<void> {
@@ -438,4 +1198,5 @@ class Player extends EventEmitter {
     }
 }
 
-export { Player };
\ No newline at end of file
+export { Player };
+export type { AutoplayResolver, InactivityReason, InactivityTimeouts, PlayerEventHandler, PlayerEvents, PlayerLifecycleState, PlayerUpdatePacket, EventPayload, TrackEndReason };
\ No newline at end of file
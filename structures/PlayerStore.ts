@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { FilterOptions } from "./Filters";
+import type { TrackInfo } from "./Rest";
+
+interface TrackSnapshot {
+    encoded: string;
+    info: TrackInfo;
+    requester: any;
+}
+
+/**
+ * Serializable state of a player, enough to rebuild it after a restart.
+ */
+interface PlayerSnapshot {
+    guildId: string;
+    textChannel: string | null;
+    voiceChannel: string | null;
+    node: string | null;
+    deaf: boolean;
+    mute: boolean;
+    volume: number;
+    loop: "none" | "track" | "queue";
+    autoplay: boolean;
+    paused: boolean;
+    position: number;
+    current: TrackSnapshot | null;
+    queue: TrackSnapshot[];
+    history: TrackSnapshot[];
+    filters: FilterOptions;
+    savedAt: number;
+}
+
+// Snapshots keyed by guild ID; async implementations are awaited
+interface PlayerStore {
+    get(guildId: string): PlayerSnapshot | undefined | Promise<PlayerSnapshot | undefined>;
+    set(guildId: string, snapshot: PlayerSnapshot): void | Promise<void>;
+    delete(guildId: string): void | Promise<void>;
+    getAll(): PlayerSnapshot[] | Promise<PlayerSnapshot[]>;
+}
+
+class MemoryPlayerStore implements PlayerStore {
+    private snapshots: Map<string, PlayerSnapshot>;
+
+    constructor() {
+        this.snapshots = new Map();
+    }
+
+    get(guildId: string): PlayerSnapshot | undefined {
+        return this.snapshots.get(guildId);
+    }
+
+    set(guildId: string, snapshot: PlayerSnapshot): void {
+        this.snapshots.set(guildId, snapshot);
+    }
+
+    delete(guildId: string): void {
+        this.snapshots.delete(guildId);
+    }
+
+    getAll(): PlayerSnapshot[] {
+        return [...this.snapshots.values()];
+    }
+}
+
+/**
+ * Keeps every snapshot in a single JSON file. Changes made while a write is
+ * running are batched into one follow-up write, which goes through a temporary
+ * file so a crash mid-write cannot corrupt the store.
+ */
+class JsonFilePlayerStore implements PlayerStore {
+    private filePath: string;
+    private snapshots: Map<string, PlayerSnapshot> | null;
+    private loading: Promise<Map<string, PlayerSnapshot>> | null;
+    private writing: Promise<void>;
+    private queuedWrite: Promise<void> | null;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+        this.snapshots = null;
+        this.loading = null;
+        this.writing = Promise.resolve();
+        this.queuedWrite = null;
+    }
+
+    async get(guildId: string): Promise<PlayerSnapshot | undefined> {
+        return (await this.load()).get(guildId);
+    }
+
+    async set(guildId: string, snapshot: PlayerSnapshot): Promise<void> {
+        (await this.load()).set(guildId, snapshot);
+        return this.persist();
+    }
+
+    async delete(guildId: string): Promise<void> {
+        const snapshots = await this.load();
+        if (!snapshots.delete(guildId)) return;
+        return this.persist();
+    }
+
+    async getAll(): Promise<PlayerSnapshot[]> {
+        return [...(await this.load()).values()];
+    }
+
+    private load(): Promise<Map<string, PlayerSnapshot>> {
+        if (this.snapshots) return Promise.resolve(this.snapshots);
+        this.loading ??= fs.readFile(this.filePath, "utf8")
+            .then(raw => JSON.parse(raw) as Record<string, PlayerSnapshot>)
+            .catch(error => {
+                if (error.code === "ENOENT") return {};
+                throw new Error(`Failed to read player snapshots from ${this.filePath}: ${error.message}`);
+            })
+            .then(data => this.snapshots = new Map(Object.entries(data)))
+            .finally(() => this.loading = null);
+        return this.loading;
+    }
+
+    private persist(): Promise<void> {
+        // A write that has not started yet will pick up this change too
+        if (this.queuedWrite) return this.queuedWrite;
+        const write = async () => {
+            this.queuedWrite = null;
+            const data = JSON.stringify(Object.fromEntries(this.snapshots));
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(tempPath, data, "utf8");
+            await fs.rename(tempPath, this.filePath);
+        };
+        this.queuedWrite = this.writing.then(write, write);
+        this.writing = this.queuedWrite;
+        return this.queuedWrite;
+    }
+}
+
+export { JsonFilePlayerStore, MemoryPlayerStore };
+export type { PlayerSnapshot, PlayerStore, TrackSnapshot };
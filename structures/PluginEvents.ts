@@ -0,0 +1,85 @@
+import type { Lyrics, LyricsLine, TrackData } from "./Rest";
+
+interface PluginEventPayload {
+    op: "event";
+    type: string;
+    guildId: string;
+    [key: string]: any;
+}
+
+// SponsorBlock plugin
+interface Segment {
+    category: string;
+    start: number;
+    end: number;
+}
+
+interface Chapter {
+    name: string;
+    start: number;
+    end: number;
+    duration: number;
+}
+
+interface SegmentsLoadedPayload extends PluginEventPayload {
+    type: "SegmentsLoaded";
+    segments: Segment[];
+}
+
+interface SegmentSkippedPayload extends PluginEventPayload {
+    type: "SegmentSkipped";
+    segment: Segment;
+}
+
+interface ChaptersLoadedPayload extends PluginEventPayload {
+    type: "ChaptersLoaded";
+    chapters: Chapter[];
+}
+
+interface ChapterStartedPayload extends PluginEventPayload {
+    type: "ChapterStarted";
+    chapter: Chapter;
+}
+
+// LavaLyrics plugin
+interface LyricsFoundPayload extends PluginEventPayload {
+    type: "LyricsFoundEvent";
+    lyrics: Lyrics;
+}
+
+interface LyricsNotFoundPayload extends PluginEventPayload {
+    type: "LyricsNotFoundEvent";
+}
+
+interface LyricsLinePayload extends PluginEventPayload {
+    type: "LyricsLineEvent";
+    lineIndex: number;
+    line: LyricsLine;
+    skipped: boolean;
+    track?: TrackData;
+}
+
+// Lavalink event types handled out of the box, and the Aqua event each is re-emitted as
+const PLUGIN_EVENTS = Object.freeze({
+    SegmentsLoaded: "segmentsLoaded",
+    SegmentSkipped: "segmentSkipped",
+    ChaptersLoaded: "chaptersLoaded",
+    ChapterStarted: "chapterStarted",
+    LyricsFoundEvent: "lyricsFound",
+    LyricsNotFoundEvent: "lyricsNotFound",
+    LyricsLineEvent: "lyricsLine"
+} as const);
+
+export { PLUGIN_EVENTS };
+export type {
+    Chapter,
+    ChapterStartedPayload,
+    ChaptersLoadedPayload,
+    LyricsFoundPayload,
+    LyricsLinePayload,
+    LyricsNotFoundPayload,
+    PluginEventPayload,
+    Segment,
+    SegmentSkippedPayload,
+    SegmentsLoadedPayload
+};
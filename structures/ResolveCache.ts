@@ -0,0 +1,69 @@
+import type { LoadResult } from "./Rest";
+
+type CacheableLoadType = "search" | "tracks" | "all";
+
+// Holds loadtracks results until their ttl (ms) runs out; methods can be sync or async
+interface ResolveCacheStore {
+    get(key: string): LoadResult | undefined | Promise<LoadResult | undefined>;
+    set(key: string, value: LoadResult, ttl: number): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    clear(): void | Promise<void>;
+}
+
+interface ResolveCacheOptions {
+    maxEntries?: number;
+    ttl?: number;
+    include?: CacheableLoadType;
+    store?: ResolveCacheStore;
+}
+
+interface CacheEntry {
+    value: LoadResult;
+    expiresAt: number;
+}
+
+class MemoryResolveStore implements ResolveCacheStore {
+    private entries: Map<string, CacheEntry>;
+    private maxEntries: number;
+
+    constructor(maxEntries = 500) {
+        this.entries = new Map();
+        this.maxEntries = Math.max(1, maxEntries);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): LoadResult | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        // Re-insert so the Map order stays least recently used first
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: string, value: LoadResult, ttl: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+export { MemoryResolveStore };
+export type { CacheableLoadType, ResolveCacheOptions, ResolveCacheStore };
@@ -1,4 +1,4 @@
-import { request } from "undici";
+import { request, Dispatcher } from "undici";
 import { EventEmitter } from "events"; // Assuming aqua extends EventEmitter
 
 interface RestOptions {
@@ -8,16 +8,207 @@ interface RestOptions {
     sessionId: string;
     password: string;
     restVersion?: string;
+    requestTimeout?: number;
+    requestRetries?: number;
+    maxConcurrentRequests?: number;
+}
+
+interface RequestMetrics {
+    queued: number;
+    inFlight: number;
+    completed: number;
+    failed: number;
+    maxConcurrency: number;
+}
+
+interface QueuedRequest {
+    method: Dispatcher.HttpMethod;
+    endpoint: string;
+    body: any;
+    key: string | null;
+    promise: Promise<any>;
+    resolve: (value: any) => void;
+    reject: (reason: any) => void;
+}
+
+interface LavalinkErrorBody {
+    timestamp: number;
+    status: number;
+    error: string;
+    message: string;
+    path: string;
+    trace?: string;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+const RETRY_BASE_DELAY = 250;
+
+class RestError extends Error {
+    public readonly status: number | null;
+    public readonly method: string;
+    public readonly endpoint: string;
+    public readonly body: LavalinkErrorBody | null;
+    public readonly timestamp: number | null;
+    public readonly error: string | null;
+    public readonly path: string | null;
+    public readonly trace: string | null;
+    public readonly timedOut: boolean;
+    public readonly retryAfter: number | null;
+
+    constructor(options: { method: string; endpoint: string; status?: number | null; body?: any; message?: string; timedOut?: boolean; retryAfter?: number | null }) {
+        const body = options.body && typeof options.body === "object" ? options.body as LavalinkErrorBody : null;
+        super(options.message ?? body?.message ?? `${options.method} ${options.endpoint} failed with status ${options.status}`);
+        this.name = "RestError";
+        this.status = options.status ?? null;
+        this.method = options.method;
+        this.endpoint = options.endpoint;
+        this.body = body;
+        this.timestamp = body?.timestamp ?? null;
+        this.error = body?.error ?? null;
+        this.path = body?.path ?? null;
+        this.trace = body?.trace ?? null;
+        this.timedOut = options.timedOut ?? false;
+        this.retryAfter = options.retryAfter ?? null;
+    }
+
+    get retryable(): boolean {
+        return this.timedOut || this.status === 429 || (this.status ?? 0) >= 500;
+    }
+}
+
+interface TrackInfo {
+    identifier: string;
+    isSeekable: boolean;
+    author: string;
+    length: number;
+    isStream: boolean;
+    position: number;
+    title: string;
+    uri: string | null;
+    artworkUrl: string | null;
+    isrc: string | null;
+    sourceName: string;
+}
+
+interface TrackData {
+    encoded: string;
+    info: TrackInfo;
+    pluginInfo: Record<string, any>;
+    userData: Record<string, any>;
+}
+
+interface PlaylistInfo {
+    name: string;
+    selectedTrack: number;
+}
+
+interface LoadException {
+    message: string | null;
+    severity: "common" | "suspicious" | "fault";
+    cause: string;
+    causeStackTrace?: string;
+}
+
+type LoadResult =
+    | { loadType: "track"; data: TrackData }
+    | { loadType: "playlist"; data: { info: PlaylistInfo; pluginInfo: Record<string, any>; tracks: TrackData[] } }
+    | { loadType: "search"; data: TrackData[] }
+    | { loadType: "empty"; data: Record<string, never> }
+    | { loadType: "error"; data: LoadException };
+
+interface PlayerState {
+    time: number;
+    position: number;
+    connected: boolean;
+    ping: number;
+}
+
+interface VoiceState {
+    token: string;
+    endpoint: string;
+    sessionId: string;
+    channelId?: string; // Sent by Lavalink 4.1 and later
+}
+
+interface LavalinkPlayer {
+    guildId: string;
+    track: TrackData | null;
+    volume: number;
+    paused: boolean;
+    state: PlayerState;
+    voice: VoiceState;
+    filters: Record<string, any>;
+}
+
+interface UpdatePlayerData {
+    track?: { encoded?: string | null; identifier?: string; userData?: Record<string, any> };
+    position?: number;
+    endTime?: number | null;
+    volume?: number;
+    paused?: boolean;
+    filters?: Record<string, any>;
+    voice?: VoiceState;
+    [key: string]: any;
 }
 
 interface UpdatePlayerOptions {
     guildId: string;
-    data: Record<string, any>; // Adjust the type according to your data structure
+    data: UpdatePlayerData;
+    noReplace?: boolean;
+}
+
+interface Session {
+    resuming: boolean;
+    timeout: number;
+}
+
+interface Info {
+    version: { semver: string; major: number; minor: number; patch: number; preRelease: string | null; build: string | null };
+    buildTime: number;
+    git: { branch: string; commit: string; commitTime: number };
+    jvm: string;
+    lavaplayer: string;
+    sourceManagers: string[];
+    filters: string[];
+    plugins: Array<{ name: string; version: string }>;
+}
+
+interface Stats {
+    players: number;
+    playingPlayers: number;
+    uptime: number;
+    memory: { free: number; used: number; allocated: number; reservable: number };
+    cpu: { cores: number; systemLoad: number; lavalinkLoad: number };
+    frameStats: { sent: number; nulled: number; deficit: number } | null;
+}
+
+interface RoutePlannerStatus {
+    class: "RotatingIpRoutePlanner" | "NanoIpRoutePlanner" | "RotatingNanoIpRoutePlanner" | "BalancingIpRoutePlanner" | null;
+    details: {
+        ipBlock: { type: "Inet4Address" | "Inet6Address"; size: string };
+        failingAddresses: Array<{ failingAddress: string; failingTimestamp: number; failingTime: string }>;
+        rotateIndex?: string;
+        ipIndex?: string;
+        currentAddress?: string;
+        currentAddressIndex?: string;
+        blockIndex?: string;
+    } | null;
 }
 
-interface Track {
-    encoded?: string;
-    identifier?: string;
+// Lyrics as returned by the LavaLyrics plugin
+interface LyricsLine {
+    timestamp: number;
+    duration: number | null;
+    line: string;
+    plugin: Record<string, any>;
+}
+
+interface Lyrics {
+    sourceName: string;
+    provider: string;
+    text: string | null;
+    lines: LyricsLine[];
+    plugin: Record<string, any>;
 }
 
 class Rest {
@@ -28,6 +219,13 @@ class Rest {
     private version: string;
     private calls: number;
     private headers: Record<string, string>;
+    private timeout: number;
+    private retries: number;
+    private maxConcurrency: number;
+    // Lower index runs first: player updates, everything else, then loadtracks
+    private pending: QueuedRequest[][];
+    private activeKeys: Set<string>;
+    public readonly metrics: RequestMetrics;
 
     constructor(aqua: EventEmitter, options: RestOptions) {
         this.aqua = aqua;
@@ -36,6 +234,12 @@ class Rest {
         this.password = options.password;
         this.version = options.restVersion || "v4";
         this.calls = 0;
+        this.timeout = options.requestTimeout ?? 10000;
+        this.retries = options.requestRetries ?? 2;
+        this.maxConcurrency = Math.max(1, options.maxConcurrentRequests ?? 10);
+        this.pending = [[], [], []];
+        this.activeKeys = new Set();
+        this.metrics = { queued: 0, inFlight: 0, completed: 0, failed: 0, maxConcurrency: this.maxConcurrency };
         this.headers = {
             "Content-Type": "application/json",
             Authorization: this.password,
@@ -46,26 +250,138 @@ class Rest {
         this.sessionId = sessionId;
     }
 
-    async makeRequest(method: string, endpoint: string, body: any = null): Promise<any> {
-        const options: { method: string; headers: Record<string, string>; body?: string } = {
-            method,
-            headers: this.headers,
-        };
-        if (body) {
-            options.body = JSON.stringify(body);
+    /**
+     * Queues a request to the node. At most `maxConcurrentRequests` run at once;
+     * player updates are sent before other requests and loadtracks searches go last.
+     *
+     * @throws {RestError} If the node answers with an error status or the request times out.
+     */
+    async makeRequest(method: Dispatcher.HttpMethod, endpoint: string, body: any = null): Promise<any> {
+        return this.schedule(method, endpoint, body, null);
+    }
+
+    // Requests sharing a key never run concurrently, and queued ones merge their bodies
+    private schedule(method: Dispatcher.HttpMethod, endpoint: string, body: any, key: string | null): Promise<any> {
+        const queue = this.pending[this.getPriority(method, endpoint)];
+        if (key) {
+            const queued = queue.find(entry => entry.key === key);
+            if (queued) {
+                Object.assign(queued.body, body);
+                return queued.promise;
+            }
         }
-        const response = await request(`${this.url}${endpoint}`, options);
-        this.calls++;
-        const data = await response.body.json();
-        this.aqua.emit("apiResponse", endpoint, {
-            status: response.statusCode,
-            headers: response.headers,
+        let resolve: (value: any) => void;
+        let reject: (reason: any) => void;
+        const promise = new Promise<any>((res, rej) => {
+            resolve = res;
+            reject = rej;
         });
-        response.body.destroy();
-        return data;
+        queue.push({ method, endpoint, body, key, promise, resolve, reject });
+        this.metrics.queued++;
+        this.drainQueue();
+        return promise;
+    }
+
+    private getPriority(method: Dispatcher.HttpMethod, endpoint: string): number {
+        if (method === "PATCH" && endpoint.includes("/players/")) return 0;
+        if (endpoint.includes("/loadtracks")) return 2;
+        return 1;
+    }
+
+    private nextRequest(): QueuedRequest | undefined {
+        for (const queue of this.pending) {
+            const index = queue.findIndex(entry => !entry.key || !this.activeKeys.has(entry.key));
+            if (index !== -1) return queue.splice(index, 1)[0];
+        }
+        return undefined;
+    }
+
+    private drainQueue(): void {
+        while (this.metrics.inFlight < this.maxConcurrency) {
+            const entry = this.nextRequest();
+            if (!entry) return;
+            this.metrics.queued--;
+            this.metrics.inFlight++;
+            if (entry.key) this.activeKeys.add(entry.key);
+            this.executeRequest(entry.method, entry.endpoint, entry.body)
+                .then(result => {
+                    this.metrics.completed++;
+                    entry.resolve(result);
+                }, error => {
+                    this.metrics.failed++;
+                    entry.reject(error);
+                })
+                .finally(() => {
+                    this.metrics.inFlight--;
+                    if (entry.key) this.activeKeys.delete(entry.key);
+                    this.drainQueue();
+                });
+        }
+    }
+
+    /**
+     * Idempotent methods are retried with backoff on timeouts, network errors, 429 and 5xx responses.
+     */
+    private async executeRequest(method: Dispatcher.HttpMethod, endpoint: string, body: any): Promise<any> {
+        const retries = IDEMPOTENT_METHODS.has(method) ? this.retries : 0;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.sendRequest(method, endpoint, body);
+            } catch (error) {
+                const retryable = error instanceof RestError ? error.retryable : true;
+                if (attempt >= retries || !retryable) throw error;
+                const delay = error.retryAfter ?? RETRY_BASE_DELAY * Math.pow(2, attempt);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private async sendRequest(method: Dispatcher.HttpMethod, endpoint: string, body: any): Promise<any> {
+        try {
+            const response = await request(`${this.url}${endpoint}`, {
+                method,
+                headers: this.headers,
+                body: body ? JSON.stringify(body) : undefined,
+                signal: AbortSignal.timeout(this.timeout),
+            });
+            this.calls++;
+            const { statusCode, headers } = response;
+            this.aqua.emit("apiResponse", endpoint, { status: statusCode, headers });
+            if (statusCode === 204) {
+                await response.body.dump();
+                return null;
+            }
+            const text = await response.body.text();
+            const data = this.parseBody(text);
+            if (statusCode >= 400) {
+                const retryAfter = Number(headers["retry-after"]);
+                throw new RestError({
+                    method,
+                    endpoint,
+                    status: statusCode,
+                    body: data,
+                    retryAfter: Number.isFinite(retryAfter) ? retryAfter * 1000 : null,
+                });
+            }
+            return data;
+        } catch (error) {
+            if (error?.name === "TimeoutError" || error?.name === "AbortError") {
+                throw new RestError({ method, endpoint, message: `${method} ${endpoint} timed out after ${this.timeout}ms`, timedOut: true });
+            }
+            throw error;
+        }
+    }
+
+    private parseBody(text: string): any {
+        if (!text) return null;
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
     }
 
-    async updatePlayer(options: UpdatePlayerOptions): Promise<any> {
+    async updatePlayer(options: UpdatePlayerOptions): Promise<LavalinkPlayer> {
         const requestBody = { ...options.data };
         if ((requestBody.track?.encoded && requestBody.track?.identifier) ||
             (requestBody.encodedTrack && requestBody.identifier)) {
@@ -76,48 +392,107 @@ class Rest {
             delete requestBody.track;
             requestBody[track.encoded ? 'encodedTrack' : 'identifier'] = track.encoded || track.identifier;
         }
-        return this.makeRequest(
-            "PATCH",
-            `/${this.version}/sessions/${this.sessionId}/players/${options.guildId}?noReplace=false`,
-            requestBody
-        );
+        const endpoint = `/${this.version}/sessions/${this.sessionId}/players/${options.guildId}?noReplace=${options.noReplace ?? false}`;
+        return this.schedule("PATCH", endpoint, requestBody, endpoint);
     }
 
-    async getPlayers(): Promise<any> {
+    async updateSession(data: Partial<Session>): Promise<Session> {
+        return this.makeRequest("PATCH", `/${this.version}/sessions/${this.sessionId}`, data);
+    }
+
+    async getPlayers(): Promise<LavalinkPlayer[]> {
         return this.makeRequest("GET", `/${this.version}/sessions/${this.sessionId}/players`);
     }
 
-    async destroyPlayer(guildId: string): Promise<any> {
+    async getPlayer(guildId: string): Promise<LavalinkPlayer> {
+        return this.makeRequest("GET", `/${this.version}/sessions/${this.sessionId}/players/${guildId}`);
+    }
+
+    async destroyPlayer(guildId: string): Promise<null> {
         return this.makeRequest("DELETE", `/${this.version}/sessions/${this.sessionId}/players/${guildId}`);
     }
 
-    async getTracks(identifier: string): Promise<any> {
+    async getTracks(identifier: string): Promise<LoadResult> {
         return this.makeRequest("GET", `/${this.version}/loadtracks?identifier=${encodeURIComponent(identifier)}`);
     }
 
-    async decodeTrack(track: string): Promise<any> {
+    async decodeTrack(track: string): Promise<TrackData> {
         return this.makeRequest("GET", `/${this.version}/decodetrack?encodedTrack=${encodeURIComponent(track)}`);
     }
 
-    async decodeTracks(tracks: any): Promise<any> { // Adjust the type according to your data structure
+    async decodeTracks(tracks: string[]): Promise<TrackData[]> {
         return this.makeRequest("POST", `/${this.version}/decodetracks`, tracks);
     }
 
-    async getStats(): Promise<any> {
-        return this.makeRequest("GET", `/${this.version}/stats${this.version !== "v3" ? "/all" : ""}`);
+    async getStats(): Promise<Stats> {
+        return this.makeRequest("GET", `/${this.version}/stats`);
     }
 
-    async getInfo(): Promise<any> {
+    async getInfo(): Promise<Info> {
         return this.makeRequest("GET", `/${this.version}/info`);
     }
 
-    async getRoutePlannerStatus(): Promise<any> {
+    // Lyrics routes need the LavaLyrics plugin; they resolve to null when no lyrics were found
+    async getLyrics(encodedTrack: string, skipTrackSource = false): Promise<Lyrics | null> {
+        return this.makeRequest("GET", `/${this.version}/lyrics?track=${encodeURIComponent(encodedTrack)}&skipTrackSource=${skipTrackSource}`);
+    }
+
+    async getCurrentTrackLyrics(guildId: string, skipTrackSource = false): Promise<Lyrics | null> {
+        return this.makeRequest("GET", `/${this.version}/sessions/${this.sessionId}/players/${guildId}/track/lyrics?skipTrackSource=${skipTrackSource}`);
+    }
+
+    async subscribeLyrics(guildId: string, skipTrackSource = false): Promise<null> {
+        return this.makeRequest("POST", `/${this.version}/sessions/${this.sessionId}/players/${guildId}/lyrics/subscribe?skipTrackSource=${skipTrackSource}`);
+    }
+
+    async unsubscribeLyrics(guildId: string): Promise<null> {
+        return this.makeRequest("DELETE", `/${this.version}/sessions/${this.sessionId}/players/${guildId}/lyrics/subscribe`);
+    }
+
+    // Not versioned, returns the plain text semver of the node
+    async getVersion(): Promise<string> {
+        return this.makeRequest("GET", "/version");
+    }
+
+    // Resolves to null when the node has no route planner configured
+    async getRoutePlannerStatus(): Promise<RoutePlannerStatus | null> {
         return this.makeRequest("GET", `/${this.version}/routeplanner/status`);
     }
 
-    async getRoutePlannerAddress(address: string): Promise<any> {
+    async freeRoutePlannerAddress(address: string): Promise<null> {
         return this.makeRequest("POST", `/${this.version}/routeplanner/free/address`, { address });
     }
+
+    async freeAllRoutePlannerAddresses(): Promise<null> {
+        return this.makeRequest("POST", `/${this.version}/routeplanner/free/all`);
+    }
+
+    /**
+     * @deprecated Frees the address rather than reading it, use `freeRoutePlannerAddress` instead.
+     */
+    async getRoutePlannerAddress(address: string): Promise<null> {
+        return this.freeRoutePlannerAddress(address);
+    }
 }
 
-export { Rest };
\ No newline at end of file
+export { Rest, RestError };
+export type {
+    Info,
+    LavalinkErrorBody,
+    LavalinkPlayer,
+    LoadException,
+    LoadResult,
+    Lyrics,
+    LyricsLine,
+    PlayerState,
+    PlaylistInfo,
+    RequestMetrics,
+    RoutePlannerStatus,
+    Session,
+    Stats,
+    TrackData,
+    TrackInfo,
+    UpdatePlayerData,
+    UpdatePlayerOptions,
+    VoiceState
+};
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { getImageUrl } from "../handlers/fetchImage";
+import { TrackCodec } from "./TrackCodec";
+import type { Node } from "./Node";
+import type { Player } from "./Player";
 
 /**
  * @typedef {import("./Aqua")} Aqua
@@ -16,6 +18,7 @@ interface TrackInfo {
     uri: string;
     sourceName: string;
     artworkUrl: string;
+    isrc?: string | null;
 }
 
 interface Playlist {
@@ -47,7 +50,8 @@ class Track {
             title: info.title,
             uri: info.uri,
             sourceName: info.sourceName,
-            artworkUrl: info.artworkUrl
+            artworkUrl: info.artworkUrl,
+            isrc: info.isrc ?? null
         });
         this.requester = requester;
         this.nodes = nodes;
@@ -55,9 +59,24 @@ class Track {
         this.playlist = playlist;
     }
 
+    /**
+     * Builds a track from its base64 form without asking a node to decode it.
+     */
+    static fromEncoded(encoded: string, requester: Player = null, nodes: Node = null): Track {
+        return new Track(TrackCodec.decode(encoded), requester, nodes);
+    }
+
+    /**
+     * Returns the base64 form of the track, encoding its info locally when the node did not provide one.
+     */
+    encode(): string {
+        return this.track ?? TrackCodec.encode(this.info);
+    }
+
+    // Only absolute URLs are usable as thumbnails; anything else is dropped
     resolveThumbnail(thumbnail: string | null): string | null {
         if (!thumbnail) return null;
-        return thumbnail.startsWith("http") ? thumbnail : getImageUrl(thumbnail, this.nodes);
+        return thumbnail.startsWith("http") ? thumbnail : null;
     }
 
     async resolve(aqua: Aqua): Promise<Track | null> {
@@ -0,0 +1,219 @@
+import type { TrackData, TrackInfo } from "./Rest";
+
+// Set in the message header when a version byte follows it
+const TRACK_INFO_VERSIONED = 1;
+const LATEST_VERSION = 3;
+
+interface DecodedTrack extends TrackData {
+    version: number;
+    sourceData: Buffer; // Source specific fields written between sourceName and position
+}
+
+interface EncodeOptions {
+    version?: number;
+    sourceData?: Buffer;
+}
+
+class MessageReader {
+    private buffer: Buffer;
+    public offset: number;
+
+    constructor(buffer: Buffer) {
+        this.buffer = buffer;
+        this.offset = 0;
+    }
+
+    private ensure(bytes: number): void {
+        if (this.offset + bytes > this.buffer.length) {
+            throw new RangeError(`Unexpected end of track data at byte ${this.offset}`);
+        }
+    }
+
+    readByte(): number {
+        this.ensure(1);
+        return this.buffer.readUInt8(this.offset++);
+    }
+
+    readBoolean(): boolean {
+        return this.readByte() !== 0;
+    }
+
+    readUShort(): number {
+        this.ensure(2);
+        const value = this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    readInt(): number {
+        this.ensure(4);
+        const value = this.buffer.readInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    readLong(): number {
+        this.ensure(8);
+        const value = this.buffer.readBigInt64BE(this.offset);
+        this.offset += 8;
+        return Number(value);
+    }
+
+    // Java's DataInput.readUTF, which uses modified UTF-8
+    readUTF(): string {
+        const length = this.readUShort();
+        this.ensure(length);
+        const end = this.offset + length;
+        const chars: number[] = [];
+        while (this.offset < end) {
+            const a = this.buffer[this.offset++];
+            if (a < 0x80) {
+                chars.push(a);
+            } else if ((a & 0xe0) === 0xc0) {
+                const b = this.buffer[this.offset++];
+                chars.push(((a & 0x1f) << 6) | (b & 0x3f));
+            } else {
+                const b = this.buffer[this.offset++];
+                const c = this.buffer[this.offset++];
+                chars.push(((a & 0x0f) << 12) | ((b & 0x3f) << 6) | (c & 0x3f));
+            }
+        }
+        return String.fromCharCode(...chars);
+    }
+
+    readNullableUTF(): string | null {
+        return this.readBoolean() ? this.readUTF() : null;
+    }
+
+    readBytes(length: number): Buffer {
+        this.ensure(length);
+        const bytes = this.buffer.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return Buffer.from(bytes);
+    }
+}
+
+class MessageWriter {
+    private chunks: Buffer[] = [];
+
+    writeByte(value: number): void {
+        this.chunks.push(Buffer.from([value & 0xff]));
+    }
+
+    writeBoolean(value: boolean): void {
+        this.writeByte(value ? 1 : 0);
+    }
+
+    writeLong(value: number): void {
+        const chunk = Buffer.alloc(8);
+        chunk.writeBigInt64BE(BigInt(Math.trunc(value)));
+        this.chunks.push(chunk);
+    }
+
+    // Java's DataOutput.writeUTF: NUL takes two bytes and surrogates are encoded separately
+    writeUTF(value: string): void {
+        const bytes: number[] = [];
+        for (let i = 0; i < value.length; i++) {
+            const c = value.charCodeAt(i);
+            if (c >= 0x01 && c <= 0x7f) {
+                bytes.push(c);
+            } else if (c <= 0x7ff) {
+                bytes.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f));
+            } else {
+                bytes.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f));
+            }
+        }
+        if (bytes.length > 0xffff) throw new RangeError("String is too long to encode in a track");
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(bytes.length);
+        this.chunks.push(length, Buffer.from(bytes));
+    }
+
+    writeNullableUTF(value: string | null | undefined): void {
+        this.writeBoolean(value != null);
+        if (value != null) this.writeUTF(value);
+    }
+
+    writeBytes(bytes: Buffer): void {
+        this.chunks.push(bytes);
+    }
+
+    toBuffer(): Buffer {
+        return Buffer.concat(this.chunks);
+    }
+}
+
+/**
+ * Reads and writes Lavalink's base64 track format (lavaplayer message versions 1 to 3)
+ * without talking to a node.
+ */
+class TrackCodec {
+    static decode(encoded: string): DecodedTrack {
+        const reader = new MessageReader(Buffer.from(encoded, "base64"));
+        const header = reader.readInt();
+        const flags = header >>> 30;
+        const messageSize = header & 0x3fffffff;
+        const messageEnd = reader.offset + messageSize;
+        const version = flags & TRACK_INFO_VERSIONED ? reader.readByte() : 1;
+        if (version < 1 || version > LATEST_VERSION) {
+            throw new Error(`Unsupported track version: ${version}`);
+        }
+
+        const title = reader.readUTF();
+        const author = reader.readUTF();
+        const length = reader.readLong();
+        const identifier = reader.readUTF();
+        const isStream = reader.readBoolean();
+        const uri = version >= 2 ? reader.readNullableUTF() : null;
+        const artworkUrl = version >= 3 ? reader.readNullableUTF() : null;
+        const isrc = version >= 3 ? reader.readNullableUTF() : null;
+        const sourceName = reader.readUTF();
+        const sourceData = reader.readBytes(Math.max(messageEnd - reader.offset - 8, 0));
+        const position = reader.readLong();
+
+        const info: TrackInfo = {
+            identifier,
+            isSeekable: !isStream,
+            author,
+            length,
+            isStream,
+            position,
+            title,
+            uri,
+            artworkUrl,
+            isrc,
+            sourceName
+        };
+        return { encoded, info, pluginInfo: {}, userData: {}, version, sourceData };
+    }
+
+    static encode(info: Partial<TrackInfo>, options: EncodeOptions = {}): string {
+        const version = options.version ?? LATEST_VERSION;
+        if (version < 1 || version > LATEST_VERSION) {
+            throw new Error(`Unsupported track version: ${version}`);
+        }
+        const writer = new MessageWriter();
+        writer.writeByte(version);
+        writer.writeUTF(info.title ?? "");
+        writer.writeUTF(info.author ?? "");
+        writer.writeLong(info.length ?? 0);
+        writer.writeUTF(info.identifier ?? "");
+        writer.writeBoolean(info.isStream ?? false);
+        if (version >= 2) writer.writeNullableUTF(info.uri);
+        if (version >= 3) {
+            writer.writeNullableUTF(info.artworkUrl);
+            writer.writeNullableUTF(info.isrc);
+        }
+        writer.writeUTF(info.sourceName ?? "");
+        if (options.sourceData) writer.writeBytes(options.sourceData);
+        writer.writeLong(info.position ?? 0);
+
+        const message = writer.toBuffer();
+        const header = Buffer.alloc(4);
+        header.writeInt32BE((TRACK_INFO_VERSIONED << 30) | message.length);
+        return Buffer.concat([header, message]).toString("base64");
+    }
+}
+
+export { TrackCodec };
+export type { DecodedTrack, EncodeOptions };
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connectPlayer, createHarness, destroyHarness } from "./helpers";
+import type { Harness } from "./helpers";
+
+// Filters sent in the most recent player update
+function lastFilters({ mock }: Harness): Record<string, any> | undefined {
+    return mock.requests.filter(request => request.method === "PATCH" && request.body?.filters).at(-1)?.body.filters;
+}
+
+test("setTimescale sends the timescale filter", async () => {
+    const harness = await createHarness();
+    try {
+        const player = connectPlayer(harness);
+        await player.filters.setTimescale(true, { speed: 1.25 });
+
+        assert.deepEqual(lastFilters(harness)?.timescale, { speed: 1.25, pitch: 1.0, rate: 1.0 });
+        assert.deepEqual(harness.mock.players.get(player.guildId)?.filters.timescale, { speed: 1.25, pitch: 1.0, rate: 1.0 });
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("filters the node does not support are dropped", async () => {
+    const harness = await createHarness({}, { info: { filters: ["volume", "equalizer", "timescale"] } });
+    try {
+        const player = connectPlayer(harness);
+        await player.filters.set8D(true);
+
+        const filters = lastFilters(harness);
+        assert.equal("rotation" in filters, false);
+        assert.deepEqual(Object.keys(filters).sort(), ["equalizer", "timescale", "volume"]);
+        // The filter is still remembered locally, so it comes back on a node that supports it
+        assert.deepEqual(player.filters.rotation, { rotationHz: 0.2 });
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("clearFilters resets every filter", async () => {
+    const harness = await createHarness();
+    try {
+        const player = connectPlayer(harness);
+        await player.filters.setTimescale(true, { pitch: 1.2 });
+        await player.filters.setKaraoke(true);
+        await player.filters.clearFilters();
+
+        const filters = lastFilters(harness);
+        assert.equal(filters.timescale, null);
+        assert.equal(filters.karaoke, null);
+        assert.equal(player.filters.timescale, null);
+        assert.equal(player.filters.karaoke, null);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { MockLavalink } from "../testing";
+import { connectPlayer, createHarness, createTrack, destroyHarness, playNext, sleep } from "./helpers";
+
+const reconnectPolicy = { baseDelay: 20, maxDelay: 100, jitter: 0, maxAttempts: 3 };
+
+test("Node reconnects after the socket drops", async () => {
+    const harness = await createHarness({ reconnectPolicy });
+    const { mock, aqua } = harness;
+    try {
+        const [node] = aqua.nodes.values();
+        const reconnecting = once(aqua, "nodeReconnecting");
+        const reconnected = once(aqua, "nodeConnect");
+        mock.disconnectAll();
+
+        const [, attempt, delay] = await reconnecting;
+        assert.equal(attempt, 1);
+        assert.equal(delay, reconnectPolicy.baseDelay);
+        await reconnected;
+        assert.equal(node.connected, true);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("Node resumes its session and rehydrates players", async () => {
+    const harness = await createHarness({ reconnectPolicy, autoResume: true });
+    const { mock, aqua } = harness;
+    try {
+        const player = connectPlayer(harness);
+        player.queue.add(createTrack(harness, "Resumed"));
+        await playNext(harness, player);
+        assert.equal(mock.resuming, true);
+
+        const resumed = once(aqua, "nodeResume");
+        mock.disconnectAll();
+        const [, guildIds] = await resumed;
+
+        assert.deepEqual(guildIds, ["guild"]);
+        assert.equal(aqua.get("guild"), player);
+        assert.equal(player.current?.info.title, "Resumed");
+        assert.notEqual(player.connection.voiceData, null);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("Node is destroyed once reconnect attempts run out", async () => {
+    const harness = await createHarness({ reconnectPolicy: { ...reconnectPolicy, maxAttempts: 2 } });
+    const { mock, aqua } = harness;
+    try {
+        const [node] = aqua.nodes.values();
+        const player = connectPlayer(harness);
+        const destroyed = once(aqua, "nodeDestroy");
+        const attempts: number[] = [];
+        aqua.on("nodeReconnecting", (_, attempt) => attempts.push(attempt));
+        aqua.on("nodeError", () => undefined);
+        await mock.stop();
+
+        const [destroyedNode] = await destroyed;
+        assert.equal(destroyedNode, node);
+        assert.deepEqual(attempts, [1, 2]);
+        assert.equal(aqua.nodes.size, 0);
+        // With nowhere to migrate, the player is destroyed without calling the dead node
+        assert.equal(player.state, "destroyed");
+        await sleep(50);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("Draining a node moves its players and ignores the old node's events", async () => {
+    const harness = await createHarness();
+    const { mock, aqua } = harness;
+    const second = await new MockLavalink({ name: "second" }).start();
+    try {
+        const [first] = aqua.nodes.values();
+        const player = connectPlayer(harness);
+        player.queue.add(createTrack(harness, "A"));
+        player.queue.add(createTrack(harness, "B"));
+        await playNext(harness, player);
+
+        const target = aqua.addNode(second.nodeConfig);
+        assert.throws(() => aqua.addNode(second.nodeConfig), /already exists/);
+        await once(target, "ready");
+        await aqua.drainNode(first.name, { migratePlayers: true });
+
+        assert.equal(player.nodes, target);
+        assert.equal(mock.players.has("guild"), false);
+        assert.equal(second.players.has("guild"), true);
+        // A late event from the drained node must not skip the track on the new one
+        mock.sendEvent("guild", "TrackEndEvent", { reason: "finished" });
+        await sleep(50);
+        assert.equal(player.current?.info.title, "A");
+        assert.equal(player.queue.size, 1);
+    } finally {
+        await destroyHarness(harness);
+        await second.stop();
+    }
+});
@@ -0,0 +1,170 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { MockGateway } from "../testing";
+import { connectPlayer, createHarness, createTrack, destroyHarness, playNext, sleep, waitFor } from "./helpers";
+import type { Harness } from "./helpers";
+
+// Titles of the tracks the player asked the mock to play, in order
+function playedTitles({ mock }: Harness, titles: Map<string, string>): string[] {
+    return mock.requests
+        .filter(request => request.method === "PATCH" && request.body?.track?.encoded)
+        .map(request => titles.get(request.body.track.encoded));
+}
+
+async function setup(titles: string[], options = {}) {
+    const harness = await createHarness(options);
+    const player = connectPlayer(harness);
+    const encoded = new Map<string, string>();
+    for (const title of titles) {
+        const track = createTrack(harness, title);
+        encoded.set(track.track, title);
+        player.queue.add(track);
+    }
+    await playNext(harness, player);
+    const endTrack = (reason: string) => harness.mock.sendEvent(player.guildId, "TrackEndEvent", { reason });
+    const played = () => playedTitles(harness, encoded);
+    return { harness, player, endTrack, played };
+}
+
+test("loop track replays the ended track", async () => {
+    const { harness, player, endTrack, played } = await setup(["A", "B"]);
+    try {
+        player.setLoop("track");
+        const repeated = once(harness.aqua, "trackRepeat");
+        endTrack("finished");
+
+        const [, track] = await repeated;
+        assert.equal(track.info.title, "A");
+        await waitFor(() => played().length === 2);
+        assert.deepEqual(played(), ["A", "A"]);
+        assert.deepEqual(Array.from(player.queue, track => track.info.title), ["B"]);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("loop queue moves the ended track to the back of the queue", async () => {
+    const { harness, player, endTrack, played } = await setup(["A", "B"]);
+    try {
+        player.setLoop("queue");
+        const repeated = once(harness.aqua, "queueRepeat");
+        endTrack("finished");
+
+        await repeated;
+        await waitFor(() => played().length === 2);
+        assert.deepEqual(played(), ["A", "B"]);
+        assert.deepEqual(Array.from(player.queue, track => track.info.title), ["A"]);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("an empty queue without looping ends and destroys the player", async () => {
+    const { harness, player, endTrack } = await setup(["A"]);
+    try {
+        const ended = once(harness.aqua, "queueEnd");
+        endTrack("finished");
+
+        await ended;
+        await waitFor(() => player.state === "destroyed");
+        assert.throws(() => harness.aqua.get(player.guildId));
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("a replaced track does not advance the queue", async () => {
+    const { harness, player, endTrack, played } = await setup(["A", "B"]);
+    try {
+        const ended = once(harness.aqua, "trackEnd");
+        endTrack("replaced");
+
+        const [, track, reason] = await ended;
+        assert.equal(track.info.title, "A");
+        assert.equal(reason, "replaced");
+        await sleep(50);
+        assert.deepEqual(played(), ["A"]);
+        assert.deepEqual(Array.from(player.queue, track => track.info.title), ["B"]);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("a track that failed to load is retried once before moving on", async () => {
+    const { harness, endTrack, played } = await setup(["A", "B"], { trackRetries: 1 });
+    try {
+        endTrack("loadFailed");
+        await waitFor(() => played().length === 2);
+        assert.deepEqual(played(), ["A", "A"]);
+
+        endTrack("loadFailed");
+        await waitFor(() => played().length === 3);
+        assert.deepEqual(played(), ["A", "A", "B"]);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("the alone timer counts members who were in the channel before the player joined", async () => {
+    const voiceStates = [{ userId: "user1", channelId: "voice" }];
+    const harness = await createHarness({ voiceStates: () => voiceStates, inactivityTimeouts: { alone: 50 } });
+    const { aqua } = harness;
+    try {
+        const player = connectPlayer(harness);
+        const inactive: string[] = [];
+        aqua.on("playerInactive", (_, reason) => inactive.push(reason));
+
+        aqua.updateVoiceState(MockGateway.voiceStateUpdate("guild", "user2", "voice"));
+        aqua.updateVoiceState(MockGateway.voiceStateUpdate("guild", "user2", null));
+        await sleep(100);
+        assert.deepEqual(inactive, []);
+
+        aqua.updateVoiceState(MockGateway.voiceStateUpdate("guild", "user1", null));
+        await waitFor(() => player.state === "destroyed");
+        assert.deepEqual(inactive, ["alone"]);
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("the alone timer starts when the player joins an empty channel", async () => {
+    const harness = await createHarness({ voiceStates: () => [], inactivityTimeouts: { alone: 50 } });
+    try {
+        const player = connectPlayer(harness);
+        const [, reason] = await once(harness.aqua, "playerInactive");
+        assert.equal(reason, "alone");
+        await waitFor(() => player.state === "destroyed");
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("the alone timer does not start without known voice states", async () => {
+    const harness = await createHarness({ inactivityTimeouts: { alone: 50 } });
+    const { aqua } = harness;
+    try {
+        const player = connectPlayer(harness);
+        aqua.updateVoiceState(MockGateway.voiceStateUpdate("guild", "user2", "voice"));
+        aqua.updateVoiceState(MockGateway.voiceStateUpdate("guild", "user2", null));
+        await sleep(100);
+        assert.notEqual(player.state, "destroyed");
+    } finally {
+        await destroyHarness(harness);
+    }
+});
+
+test("a voice socket closed with 4015 rejoins the voice channel", async () => {
+    const { harness, player } = await setup(["A"]);
+    try {
+        const closed = once(harness.aqua, "socketClosed");
+        harness.gateway.clear();
+        harness.mock.sendEvent(player.guildId, "WebSocketClosedEvent", { code: 4015, reason: "Voice server crashed", byRemote: true });
+
+        const [, payload] = await closed;
+        assert.equal(payload.code, 4015);
+        assert.deepEqual(harness.gateway.lastVoiceUpdate, { guild_id: "guild", channel_id: "voice", self_mute: false, self_deaf: false });
+    } finally {
+        await destroyHarness(harness);
+    }
+});
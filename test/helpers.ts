@@ -0,0 +1,75 @@
+import { once } from "events";
+import { Aqua } from "../structures/Aqua";
+import { Track } from "../structures/Track";
+import { TrackCodec } from "../structures/TrackCodec";
+import { MockGateway, MockLavalink } from "../testing";
+import type { AquaOptions } from "../structures/Aqua";
+import type { MockLavalinkOptions } from "../testing/MockLavalink";
+import type { TrackData } from "../structures/Rest";
+
+interface Harness {
+    mock: MockLavalink;
+    gateway: MockGateway;
+    aqua: Aqua;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Polls until the condition holds, failing the test if it never does
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+        await sleep(5);
+    }
+}
+
+function trackData(title: string, length = 180000): TrackData {
+    const info = { title, author: "Artist", length, identifier: title, isStream: false, uri: `https://example.com/${title}`, sourceName: "http" };
+    return TrackCodec.decode(TrackCodec.encode(info));
+}
+
+function createTrack({ aqua }: Harness, title: string): Track {
+    const [node] = aqua.nodes.values();
+    return new Track(trackData(title), null, node);
+}
+
+async function createHarness(options: Partial<AquaOptions> = {}, mockOptions: MockLavalinkOptions = {}): Promise<Harness> {
+    const mock = await new MockLavalink(mockOptions).start();
+    const gateway = new MockGateway();
+    const aqua = new Aqua({}, [mock.nodeConfig], { send: gateway.send, ...options });
+    const connected = once(aqua, "nodeConnect");
+    aqua.init("bot");
+    await connected;
+    const [node] = aqua.nodes.values();
+    await waitFor(() => node.capabilities !== null);
+    return { mock, gateway, aqua };
+}
+
+// Creates a player and feeds it the voice updates Discord would send
+function connectPlayer({ aqua }: Harness, guildId = "guild") {
+    const options = { guildId, voiceChannel: "voice", textChannel: "text" };
+    const player = aqua.createConnection(options);
+    aqua.updateVoiceState(MockGateway.voiceStateUpdate(guildId, "bot", "voice"));
+    aqua.updateVoiceState(MockGateway.voiceServerUpdate(guildId));
+    return player;
+}
+
+// Plays the next queued track and waits until the mock has it
+async function playNext({ mock }: Harness, player: ReturnType<typeof connectPlayer>): Promise<void> {
+    const expected = player.queue.first?.track;
+    player.play();
+    await waitFor(() => mock.players.get(player.guildId)?.track?.encoded === expected);
+    mock.sendEvent(player.guildId, "TrackStartEvent");
+    await waitFor(() => player.state === "playing");
+}
+
+async function destroyHarness({ mock, aqua }: Harness): Promise<void> {
+    aqua.cleanup();
+    // Let requests sent while destroying players settle before the server goes away
+    await sleep(50);
+    await mock.stop();
+}
+
+export { connectPlayer, createHarness, createTrack, destroyHarness, playNext, sleep, trackData, waitFor };
+export type { Harness };
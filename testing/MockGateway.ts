@@ -0,0 +1,47 @@
+interface GatewayPayload {
+    op: number;
+    d: any;
+}
+
+/**
+ * Stand-in for the Discord gateway. Pass `gateway.send` as Aqua's `send` option
+ * and feed the packets built here to `aqua.updateVoiceState`.
+ */
+class MockGateway {
+    public payloads: GatewayPayload[] = [];
+
+    send = (payload: GatewayPayload): void => {
+        this.payloads.push(payload);
+    };
+
+    // Voice state updates (op 4) sent by players
+    get voiceUpdates(): any[] {
+        return this.payloads.filter(payload => payload.op === 4).map(payload => payload.d);
+    }
+
+    get lastVoiceUpdate(): any | null {
+        const updates = this.voiceUpdates;
+        return updates.length ? updates[updates.length - 1] : null;
+    }
+
+    clear(): void {
+        this.payloads.length = 0;
+    }
+
+    static voiceStateUpdate(guildId: string, userId: string, channelId: string | null, sessionId = "voice-session") {
+        return {
+            t: "VOICE_STATE_UPDATE",
+            d: { guild_id: guildId, user_id: userId, channel_id: channelId, session_id: sessionId, self_deaf: false, self_mute: false }
+        };
+    }
+
+    static voiceServerUpdate(guildId: string, endpoint = "us-east1.discord.media:443", token = "voice-token") {
+        return {
+            t: "VOICE_SERVER_UPDATE",
+            d: { guild_id: guildId, endpoint, token }
+        };
+    }
+}
+
+export { MockGateway };
+export type { GatewayPayload };
@@ -0,0 +1,288 @@
+import http from "http";
+import { EventEmitter } from "events";
+import WebSocket, { WebSocketServer } from "ws";
+import { TrackCodec } from "../structures/TrackCodec";
+import type { Info, LavalinkPlayer, LoadResult, Stats } from "../structures/Rest";
+
+interface MockLavalinkOptions {
+    name?: string;
+    host?: string;
+    port?: number;
+    password?: string;
+    sessionId?: string;
+    autoReady?: boolean;
+    info?: Partial<Info>;
+}
+
+interface RecordedRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    body: any;
+}
+
+const DEFAULT_INFO: Info = {
+    version: { semver: "4.0.0", major: 4, minor: 0, patch: 0, preRelease: null, build: null },
+    buildTime: 0,
+    git: { branch: "main", commit: "mock", commitTime: 0 },
+    jvm: "mock",
+    lavaplayer: "mock",
+    sourceManagers: ["youtube", "soundcloud", "http"],
+    filters: ["volume", "equalizer", "karaoke", "timescale", "tremolo", "vibrato", "rotation", "distortion", "channelMix", "lowPass"],
+    plugins: []
+};
+
+/**
+ * In-process fake Lavalink v4 node for tests. Serves the REST API from memory
+ * and lets the test script the websocket frames a real node would send.
+ */
+class MockLavalink extends EventEmitter {
+    public readonly name: string;
+    public readonly host: string;
+    public readonly password: string;
+    public sessionId: string;
+    public autoReady: boolean;
+    public info: Info;
+    public resuming: boolean;
+    public resumeTimeout: number;
+    public players: Map<string, LavalinkPlayer>;
+    public loadResults: Map<string, LoadResult>;
+    public requests: RecordedRequest[];
+    public sockets: Set<WebSocket>;
+    private requestedPort: number;
+    private server: http.Server | null;
+    private wss: WebSocketServer | null;
+
+    constructor(options: MockLavalinkOptions = {}) {
+        super();
+        this.name = options.name ?? "mock";
+        this.host = options.host ?? "127.0.0.1";
+        this.password = options.password ?? "youshallnotpass";
+        this.sessionId = options.sessionId ?? "mock-session";
+        this.autoReady = options.autoReady ?? true;
+        this.info = { ...DEFAULT_INFO, ...options.info };
+        this.resuming = false;
+        this.resumeTimeout = 60;
+        this.players = new Map();
+        this.loadResults = new Map();
+        this.requests = [];
+        this.sockets = new Set();
+        this.requestedPort = options.port ?? 0;
+        this.server = null;
+        this.wss = null;
+    }
+
+    get port(): number {
+        const address = this.server?.address();
+        return typeof address === "object" && address ? address.port : this.requestedPort;
+    }
+
+    /**
+     * Node config to pass to `new Aqua(client, [mock.nodeConfig], options)`.
+     */
+    get nodeConfig(): { name: string; host: string; port: number; password: string } {
+        return { name: this.name, host: this.host, port: this.port, password: this.password };
+    }
+
+    async start(): Promise<this> {
+        if (this.server) return this;
+        this.server = http.createServer((req, res) => this.handleRequest(req, res));
+        this.wss = new WebSocketServer({ noServer: true });
+        this.server.on("upgrade", (req, socket, head) => {
+            if (req.headers.authorization !== this.password || !req.url?.startsWith("/v4/websocket")) {
+                socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+                socket.destroy();
+                return;
+            }
+            this.wss.handleUpgrade(req, socket, head, ws => this.handleConnection(ws, req));
+        });
+        await new Promise<void>(resolve => this.server.listen(this.requestedPort, this.host, resolve));
+        return this;
+    }
+
+    async stop(): Promise<void> {
+        this.disconnectAll(1001, "Mock shutting down");
+        this.wss?.close();
+        const server = this.server;
+        this.server = null;
+        this.wss = null;
+        if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    setLoadResult(identifier: string, result: LoadResult): this {
+        this.loadResults.set(identifier, result);
+        return this;
+    }
+
+    send(payload: Record<string, any>): void {
+        const data = JSON.stringify(payload);
+        for (const ws of this.sockets) {
+            if (ws.readyState === WebSocket.OPEN) ws.send(data);
+        }
+    }
+
+    sendReady(resumed = false): void {
+        this.send({ op: "ready", resumed, sessionId: this.sessionId });
+    }
+
+    sendStats(stats: Partial<Stats> = {}): void {
+        this.send({
+            op: "stats",
+            players: this.players.size,
+            playingPlayers: [...this.players.values()].filter(player => player.track && !player.paused).length,
+            uptime: 0,
+            memory: { free: 0, used: 0, allocated: 0, reservable: 0 },
+            cpu: { cores: 1, systemLoad: 0, lavalinkLoad: 0 },
+            frameStats: null,
+            ...stats
+        });
+    }
+
+    sendPlayerUpdate(guildId: string, state: Partial<LavalinkPlayer["state"]> = {}): void {
+        const player = this.players.get(guildId);
+        const fullState = { time: Date.now(), position: 0, connected: true, ping: 0, ...player?.state, ...state };
+        if (player) player.state = fullState;
+        this.send({ op: "playerUpdate", guildId, state: fullState });
+    }
+
+    sendEvent(guildId: string, type: string, data: Record<string, any> = {}): void {
+        const track = this.players.get(guildId)?.track ?? null;
+        this.send({ op: "event", type, guildId, track, ...data });
+    }
+
+    /**
+     * Closes every websocket, as a node restart or network drop would.
+     */
+    disconnectAll(code = 1006, reason = ""): void {
+        for (const ws of this.sockets) {
+            if (code === 1006) ws.terminate();
+            else ws.close(code, reason);
+        }
+        this.sockets.clear();
+    }
+
+    private handleConnection(ws: WebSocket, req: http.IncomingMessage): void {
+        this.sockets.add(ws);
+        ws.on("close", () => this.sockets.delete(ws));
+        const resumed = this.resuming && req.headers["session-id"] === this.sessionId;
+        if (!resumed) this.players.clear();
+        this.emit("connection", ws, req);
+        if (this.autoReady) this.send({ op: "ready", resumed, sessionId: this.sessionId });
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        let raw = "";
+        req.on("data", chunk => raw += chunk);
+        req.on("end", () => {
+            const url = new URL(req.url ?? "/", `http://${this.host}`);
+            let body = null;
+            try {
+                body = raw ? JSON.parse(raw) : null;
+            } catch {
+                return this.reply(res, 400, this.errorBody(400, "Bad Request", "Invalid JSON body", url.pathname));
+            }
+            const request = { method: req.method ?? "GET", path: url.pathname, query: url.searchParams, body };
+            this.requests.push(request);
+            this.emit("request", request);
+            if (req.headers.authorization !== this.password) {
+                return this.reply(res, 401, this.errorBody(401, "Unauthorized", "Invalid password", url.pathname));
+            }
+            try {
+                this.route(request, res);
+            } catch (error) {
+                this.reply(res, 500, this.errorBody(500, "Internal Server Error", error.message, url.pathname));
+            }
+        });
+    }
+
+    private route({ method, path, query, body }: RecordedRequest, res: http.ServerResponse): void {
+        if (method === "GET" && path === "/version") return this.reply(res, 200, this.info.version.semver);
+        if (method === "GET" && path === "/v4/info") return this.reply(res, 200, this.info);
+        if (method === "GET" && path === "/v4/stats") {
+            return this.reply(res, 200, { players: this.players.size, playingPlayers: 0, uptime: 0, memory: {}, cpu: {}, frameStats: null });
+        }
+        if (method === "GET" && path === "/v4/loadtracks") {
+            const identifier = query.get("identifier") ?? "";
+            return this.reply(res, 200, this.loadResults.get(identifier) ?? { loadType: "empty", data: {} });
+        }
+        if (method === "GET" && path === "/v4/decodetrack") {
+            return this.reply(res, 200, TrackCodec.decode(query.get("encodedTrack") ?? ""));
+        }
+        if (method === "POST" && path === "/v4/decodetracks") {
+            return this.reply(res, 200, (body ?? []).map((encoded: string) => TrackCodec.decode(encoded)));
+        }
+
+        const session = path.match(/^\/v4\/sessions\/([^/]+)(?:\/players(?:\/([^/]+))?)?$/);
+        if (!session || session[1] !== this.sessionId) {
+            return this.reply(res, 404, this.errorBody(404, "Not Found", "Not Found", path));
+        }
+        const [, , guildId] = session;
+        const isPlayersRoute = path.includes("/players");
+
+        if (!isPlayersRoute && method === "PATCH") {
+            this.resuming = body?.resuming ?? this.resuming;
+            this.resumeTimeout = body?.timeout ?? this.resumeTimeout;
+            return this.reply(res, 200, { resuming: this.resuming, timeout: this.resumeTimeout });
+        }
+        if (isPlayersRoute && !guildId && method === "GET") {
+            return this.reply(res, 200, [...this.players.values()]);
+        }
+        if (guildId && method === "GET") {
+            const player = this.players.get(guildId);
+            if (!player) return this.reply(res, 404, this.errorBody(404, "Not Found", "Player not found", path));
+            return this.reply(res, 200, player);
+        }
+        if (guildId && method === "PATCH") {
+            return this.reply(res, 200, this.updatePlayer(guildId, body ?? {}, query.get("noReplace") === "true"));
+        }
+        if (guildId && method === "DELETE") {
+            this.players.delete(guildId);
+            return this.reply(res, 204, null);
+        }
+        this.reply(res, 405, this.errorBody(405, "Method Not Allowed", "Method Not Allowed", path));
+    }
+
+    private updatePlayer(guildId: string, body: Record<string, any>, noReplace: boolean): LavalinkPlayer {
+        const player: LavalinkPlayer = this.players.get(guildId) ?? {
+            guildId,
+            track: null,
+            volume: 100,
+            paused: false,
+            state: { time: Date.now(), position: 0, connected: false, ping: 0 },
+            voice: { token: "", endpoint: "", sessionId: "" },
+            filters: {}
+        };
+        if (body.track && !(noReplace && player.track)) {
+            const { encoded } = body.track;
+            player.track = encoded ? { ...TrackCodec.decode(encoded), userData: body.track.userData ?? {} } : null;
+            player.state = { ...player.state, position: 0 };
+        }
+        if (body.position != null) player.state = { ...player.state, position: body.position };
+        if (body.volume != null) player.volume = body.volume;
+        if (body.paused != null) player.paused = body.paused;
+        if (body.filters) player.filters = body.filters;
+        if (body.voice) {
+            player.voice = body.voice;
+            player.state = { ...player.state, connected: true };
+        }
+        this.players.set(guildId, player);
+        return player;
+    }
+
+    private errorBody(status: number, error: string, message: string, path: string) {
+        return { timestamp: Date.now(), status, error, message, path };
+    }
+
+    private reply(res: http.ServerResponse, status: number, body: any): void {
+        if (status === 204 || body === null) {
+            res.writeHead(status).end();
+            return;
+        }
+        const isText = typeof body === "string";
+        res.writeHead(status, { "Content-Type": isText ? "text/plain" : "application/json" });
+        res.end(isText ? body : JSON.stringify(body));
+    }
+}
+
+export { MockLavalink };
+export type { MockLavalinkOptions, RecordedRequest };
@@ -0,0 +1,4 @@
+import { MockGateway } from "./MockGateway";
+import { MockLavalink } from "./MockLavalink";
+
+export { MockGateway, MockLavalink };